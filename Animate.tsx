@@ -0,0 +1,77 @@
+import React, { useEffect, useRef } from "react";
+import { usePathFollowerRef } from "./PathFollowerContext";
+import { PathFollowerState } from "./pathFollowerTypes";
+import {
+  TimelineKeyframes,
+  createTimeline,
+  applyTimelineStyles,
+} from "./timeline";
+
+type ProgressSource = "easedProgress" | "pathProgress" | "scrollProgress";
+
+interface ProgressTimelineOptions {
+  /** Which progress value drives the timeline. Default: "easedProgress" */
+  source?: ProgressSource;
+}
+
+/**
+ * Hook that drives an element's styles from path progress keyframes.
+ * Writes to the DOM through a ref subscription, without React re-renders.
+ */
+export function useProgressTimeline<
+  T extends HTMLElement | SVGElement = HTMLDivElement,
+>(keyframes: TimelineKeyframes, options: ProgressTimelineOptions = {}) {
+  const { subscribe } = usePathFollowerRef();
+  const elementRef = useRef<T>(null);
+  const { source = "easedProgress" } = options;
+
+  // Rebuild only when keyframes change, but keep a single subscription
+  const timelineRef = useRef<{
+    keyframes: TimelineKeyframes;
+    timeline: ReturnType<typeof createTimeline>;
+  } | null>(null);
+  if (!timelineRef.current || timelineRef.current.keyframes !== keyframes) {
+    timelineRef.current = { keyframes, timeline: createTimeline(keyframes) };
+  }
+
+  useEffect(() => {
+    return subscribe((state: PathFollowerState) => {
+      const el = elementRef.current;
+      if (!el || !timelineRef.current) return;
+      applyTimelineStyles(el, timelineRef.current.timeline(state[source]));
+    });
+  }, [subscribe, source]);
+
+  return elementRef;
+}
+
+interface AnimateProps extends ProgressTimelineOptions {
+  children?: React.ReactNode;
+  /** Keyframes keyed by progress, e.g. `{ 0: { opacity: 0 }, 1: { opacity: 1 } }` */
+  keyframes: TimelineKeyframes;
+  /** Additional className */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * A wrapper whose styles follow path progress keyframes
+ */
+export function Animate({
+  children,
+  keyframes,
+  source,
+  className,
+  style,
+}: AnimateProps) {
+  const elementRef = useProgressTimeline<HTMLDivElement>(keyframes, {
+    source,
+  });
+
+  return (
+    <div ref={elementRef} className={className} style={style}>
+      {children}
+    </div>
+  );
+}
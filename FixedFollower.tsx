@@ -1,11 +1,21 @@
-import React, { useRef, useEffect, useCallback } from "react";
-import { usePathFollower } from "./PathFollowerContext";
+import React, { useRef } from "react";
+import { usePathFollowerRef } from "./PathFollowerContext";
+import {
+  DEFAULT_TRACK_ID,
+  PathFollowerContextValue,
+} from "./pathFollowerTypes";
+import { ProgressHistory } from "./progressHistory";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
+import { useReducedMotion } from "./useReducedMotion";
 
 type VerticalAnchor = "top" | "center" | "bottom" | number;
 
+/** A progress delta (0-1), or a distance along the path in viewBox units */
+export type ProgressOffset = number | { length: number };
+
 interface FixedFollowerProps {
   children: React.ReactNode;
-  /** Whether to rotate based on path tangent */
+  /** Whether to rotate based on path tangent (off when motion is reduced) */
   autoRotate?: boolean;
   /** Rotation offset in degrees */
   rotationOffset?: number;
@@ -13,15 +23,61 @@ interface FixedFollowerProps {
   offsetY?: number;
   /** X offset in pixels from the calculated position */
   offsetX?: number;
+  /** Lead (positive) or trail (negative) the main point along the path */
+  progressOffset?: ProgressOffset;
+  /** Follow the progress as it was this many ms ago. Default: 0 */
+  lag?: number;
   /** Additional className */
   className?: string;
   /** Additional inline styles */
   style?: React.CSSProperties;
+  /** Track id of the path to follow (defaults to the primary track) */
+  track?: string;
+}
+
+interface FollowerOptions {
+  trackId: string;
+  progressOffset: ProgressOffset;
+  offsetX: number;
+  offsetY: number;
+  rotation: number | null;
+}
+
+/**
+ * Transform placing a follower at `progress` on its track. Positions off
+ * the main point are sampled; the main point is already measured.
+ */
+function getFollowerTransform(
+  context: PathFollowerContextValue,
+  progress: number,
+  { trackId, progressOffset, offsetX, offsetY, rotation }: FollowerOptions,
+): string {
+  const state = context.getState();
+  let delta = 0;
+  if (typeof progressOffset === "number") {
+    delta = progressOffset;
+  } else {
+    const length = context.getPathLength(trackId);
+    delta = length > 0 ? progressOffset.length / length : 0;
+  }
+
+  const sample =
+    progress !== state.easedProgress || delta !== 0
+      ? context.sampleAt(progress + delta, trackId)
+      : null;
+  const point = sample ?? state.tracks[trackId] ?? state;
+
+  // Follow screen coordinates from CTM transformation
+  const x = point.screenPosition.x + offsetX;
+  const y = point.screenPosition.y + offsetY;
+  const angle = rotation === null ? 0 : point.angle + rotation;
+  return `translate3d(${x}px, ${y}px, 0) translate(-50%, -50%) rotate(${angle}deg)`;
 }
 
 /**
  * A fixed-position element that follows the SVG path exactly, including loops.
  * The SVG viewport moves to keep the current path section visible.
+ * Position updates are written to the element directly, without re-renders.
  */
 export function FixedFollower({
   children,
@@ -29,30 +85,77 @@ export function FixedFollower({
   rotationOffset = 90,
   offsetX = 0,
   offsetY = 0,
+  progressOffset = 0,
+  lag = 0,
   className = "",
   style,
+  track,
 }: FixedFollowerProps) {
+  const context = usePathFollowerRef();
+  const { subscribe, getState } = context;
+  const reducedMotion = useReducedMotion();
   const elementRef = useRef<HTMLDivElement>(null);
-  const { screenPosition, angle } = usePathFollower();
 
-  // Direct DOM update - bypasses React render cycle for smooth animation
-  const updatePosition = useCallback(() => {
-    const el = elementRef.current;
-    if (!el) return;
+  // Read by the subscription so prop changes don't resubscribe
+  const options: FollowerOptions = {
+    trackId: track ?? DEFAULT_TRACK_ID,
+    progressOffset,
+    offsetX,
+    offsetY,
+    rotation: autoRotate && !reducedMotion ? rotationOffset : null,
+  };
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Progress the follower sits at, behind the provider's when lagging
+  const progressRef = useRef<number | null>(null);
+  if (progressRef.current === null) {
+    progressRef.current = getState().easedProgress;
+  }
+
+  // Subscribed before paint, so the primed frame is the first one shown
+  useIsomorphicLayoutEffect(() => {
+    const apply = (progress: number) => {
+      progressRef.current = progress;
+      if (elementRef.current) {
+        elementRef.current.style.transform = getFollowerTransform(
+          context,
+          progress,
+          optionsRef.current,
+        );
+      }
+    };
+
+    if (lag <= 0) {
+      return subscribe((state) => apply(state.easedProgress));
+    }
+
+    // Replay the provider's history `lag` ms late, with a frame loop of its
+    // own so the echo catches up after the provider sleeps
+    const history = new ProgressHistory();
+    let rafId: number | null = null;
 
-    // Follow screen coordinates from CTM transformation
-    const finalX = screenPosition.x + offsetX;
-    const finalY = screenPosition.y + offsetY;
+    const tick = () => {
+      rafId = null;
+      const time = performance.now() - lag;
+      apply(history.sample(time));
+      history.prune(time);
+      if (!history.isSettled(time)) rafId = requestAnimationFrame(tick);
+    };
 
-    const rotation = autoRotate ? angle + rotationOffset : 0;
+    const unsubscribe = subscribe((state) => {
+      history.push(performance.now(), state.easedProgress);
+      if (rafId === null) rafId = requestAnimationFrame(tick);
+    });
 
-    el.style.transform = `translate3d(${finalX}px, ${finalY}px, 0) translate(-50%, -50%) rotate(${rotation}deg)`;
-  }, [screenPosition, angle, offsetX, offsetY, autoRotate, rotationOffset]);
+    return () => {
+      unsubscribe();
+      if (rafId !== null) cancelAnimationFrame(rafId);
+    };
+  }, [lag, context, subscribe]);
 
-  // Update on every context change
-  useEffect(() => {
-    updatePosition();
-  }, [updatePosition]);
+  // Rendered rather than only written in the subscription, so re-renders
+  // keep the live frame
+  const transform = getFollowerTransform(context, progressRef.current, options);
 
   return (
     <div
@@ -66,6 +169,7 @@ export function FixedFollower({
         pointerEvents: "none",
         willChange: "transform",
         ...style,
+        transform,
       }}
     >
       {children}
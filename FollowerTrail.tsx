@@ -0,0 +1,175 @@
+import React, { useEffect, useRef } from "react";
+import { usePathFollowerRef } from "./PathFollowerContext";
+import { useScrollingPath } from "./ScrollingPath";
+import { getPathSampler } from "./pathCache";
+import { TrailPiece, TrailStyle, getTrailPieces } from "./trail";
+
+/** Progress velocity (per second) below which the follower counts as resting */
+const RESTING_VELOCITY = 0.01;
+
+/** Nominal frame duration in seconds, for judging movement between updates */
+const FRAME_SECONDS = 1 / 60;
+
+interface FollowerTrailProps extends TrailStyle {
+  /** Trail length in path progress (0-1). Default: 0.08 */
+  length?: number;
+  /** Number of pieces the trail is drawn with. Default: 32 */
+  segments?: number;
+  /** CSS blend mode for the whole trail */
+  blendMode?: React.CSSProperties["mixBlendMode"];
+  /** Time in ms the trail takes to fade once the follower rests. Default: 300 */
+  fadeDuration?: number;
+  /** Additional className */
+  className?: string;
+}
+
+function applyTrailPiece(
+  element: SVGPathElement | null,
+  piece: TrailPiece,
+  variant: TrailStyle["variant"],
+): void {
+  if (!element) return;
+  element.setAttribute("d", piece.d);
+  element.setAttribute("opacity", String(piece.opacity));
+  if (variant === "polyline") {
+    element.setAttribute("stroke", piece.color);
+    element.setAttribute("stroke-width", String(piece.width));
+  } else {
+    element.setAttribute("fill", piece.color);
+  }
+}
+
+/**
+ * Tapered motion trail behind the follower, drawn inside a ScrollingPath.
+ * Updates from the provider without re-renders and fades out at rest.
+ */
+export function FollowerTrail({
+  length = 0.08,
+  segments = 32,
+  blendMode,
+  fadeDuration = 300,
+  className,
+  ...style
+}: FollowerTrailProps) {
+  const { path } = useScrollingPath();
+  const { subscribe } = usePathFollowerRef();
+  const groupRef = useRef<SVGGElement>(null);
+  const pieceRefs = useRef<(SVGPathElement | null)[]>([]);
+  // Read by the subscription so inline style props don't resubscribe
+  const styleRef = useRef(style);
+  styleRef.current = style;
+  // Last drawn state, rendered so re-renders keep the live trail
+  const piecesRef = useRef<TrailPiece[]>([]);
+  const strengthRef = useRef(0);
+  const count = Math.max(1, Math.floor(segments));
+  const variant = style.variant ?? "ribbon";
+
+  useEffect(() => {
+    const sampler = getPathSampler(path);
+    let rafId: number | null = null;
+    let lastTime = 0;
+    let head: number | null = null;
+    // Where the current stretch of motion began; the trail never reaches past it
+    let origin = 0;
+    let direction = 1;
+    // The provider stops reporting once it settles, so rest is detected
+    // here as a frame without movement
+    let movedSinceFrame = false;
+
+    const setStrength = (strength: number) => {
+      strengthRef.current = strength;
+      groupRef.current?.setAttribute("opacity", String(strength));
+    };
+
+    const frame = () => {
+      rafId = null;
+      const now = performance.now();
+      const dt = now - lastTime;
+      lastTime = now;
+      if (movedSinceFrame) {
+        movedSinceFrame = false;
+        setStrength(1);
+      } else {
+        setStrength(
+          Math.max(0, strengthRef.current - dt / Math.max(1, fadeDuration)),
+        );
+      }
+      if (strengthRef.current > 0) {
+        rafId = requestAnimationFrame(frame);
+      } else if (head !== null) {
+        origin = head;
+      }
+    };
+
+    const unsubscribe = subscribe((state) => {
+      const progress = state.easedProgress;
+      // Velocity reads 0 on the first frame after the provider wakes
+      const moving =
+        state.velocity > RESTING_VELOCITY ||
+        (head !== null &&
+          Math.abs(progress - head) > RESTING_VELOCITY * FRAME_SECONDS);
+      if (head === null || state.direction !== direction) {
+        origin = head ?? progress;
+      }
+      head = progress;
+      direction = state.direction;
+
+      const span = Math.min(length, Math.abs(head - origin));
+      const pieces = getTrailPieces(
+        sampler,
+        head,
+        head - direction * span,
+        count,
+        styleRef.current,
+      );
+      piecesRef.current = pieces;
+      const { variant: currentVariant } = styleRef.current;
+      pieces.forEach((piece, i) =>
+        applyTrailPiece(pieceRefs.current[i], piece, currentVariant),
+      );
+
+      if (moving) {
+        movedSinceFrame = true;
+        setStrength(1);
+        if (rafId === null) {
+          lastTime = performance.now();
+          rafId = requestAnimationFrame(frame);
+        }
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (rafId !== null) cancelAnimationFrame(rafId);
+    };
+  }, [path, length, count, fadeDuration, subscribe]);
+
+  return (
+    <g
+      ref={groupRef}
+      className={className}
+      opacity={strengthRef.current}
+      style={blendMode ? { mixBlendMode: blendMode } : undefined}
+      pointerEvents="none"
+      data-follower-trail
+    >
+      {Array.from({ length: count }, (_, i) => {
+        const piece = piecesRef.current[i];
+        return (
+          <path
+            key={i}
+            ref={(el) => {
+              pieceRefs.current[i] = el;
+            }}
+            d={piece?.d}
+            opacity={piece?.opacity}
+            fill={variant === "polyline" ? "none" : piece?.color}
+            stroke={variant === "polyline" ? piece?.color : undefined}
+            strokeWidth={variant === "polyline" ? piece?.width : undefined}
+            strokeLinecap={variant === "polyline" ? "round" : undefined}
+          />
+        );
+      })}
+    </g>
+  );
+}
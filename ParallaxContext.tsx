@@ -4,14 +4,28 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useMemo,
   useRef,
 } from "react";
-import { ParallaxContextValue, ParallaxConfig } from "./types";
 import {
+  ParallaxContextValue,
+  ParallaxConfig,
+  ParallaxScrollState,
+  ParallaxScrollSubscriber,
+  ParallaxStoreValue,
+} from "./types";
+import {
+  ScrollAxis,
   ScrollContainerRef,
   resolveScrollTarget,
   getScrollState,
 } from "./useScrollContainer";
+import {
+  ReducedMotionPolicy,
+  ReducedMotionContext,
+  useReducedMotion,
+  useReducedMotionPolicy,
+} from "./useReducedMotion";
 
 const ParallaxContext = createContext<ParallaxContextValue | null>(null);
 
@@ -28,6 +42,12 @@ interface ParallaxProviderProps {
   smooth?: boolean;
   /** Custom scroll container (defaults to window) */
   scrollContainer?: ScrollContainerRef;
+  /** Scroll axis that drives layer progress. Default: "y" */
+  axis?: ScrollAxis;
+  /** Viewport size assumed before the first measurement, e.g. on the server. Default: 0 × 0 */
+  initialViewport?: { width: number; height: number };
+  /** How to honor prefers-reduced-motion. Reduced layers stay static. Default: the enclosing provider's, else "respect" */
+  reducedMotion?: ReducedMotionPolicy;
 }
 
 export function ParallaxProvider({
@@ -35,20 +55,37 @@ export function ParallaxProvider({
   throttle = 0,
   smooth = false,
   scrollContainer,
+  axis = "y",
+  initialViewport,
+  reducedMotion,
 }: ParallaxProviderProps) {
-  const [scrollY, setScrollY] = useState(0);
-  const [scrollX, setScrollX] = useState(0);
+  const reducedMotionPolicy = useReducedMotionPolicy(reducedMotion);
+  const isReducedMotion = useReducedMotion(reducedMotionPolicy);
+  // Scroll position lives outside React state so scrolling doesn't re-render
+  const scrollRef = useRef<ParallaxScrollState>({ scrollX: 0, scrollY: 0 });
+  const subscribersRef = useRef<Set<ParallaxScrollSubscriber>>(new Set());
+  // Measured after mount so the first client render matches the server
   const [viewportHeight, setViewportHeight] = useState(
-    typeof window !== "undefined" ? window.innerHeight : 0,
+    initialViewport?.height ?? 0,
   );
   const [viewportWidth, setViewportWidth] = useState(
-    typeof window !== "undefined" ? window.innerWidth : 0,
+    initialViewport?.width ?? 0,
   );
 
   const layersRef = useRef<Map<string, LayerRegistration>>(new Map());
   const rafRef = useRef<number | null>(null);
   const lastScrollRef = useRef<number>(0);
 
+  const subscribeScroll = useCallback((callback: ParallaxScrollSubscriber) => {
+    subscribersRef.current.add(callback);
+    callback(scrollRef.current);
+    return () => {
+      subscribersRef.current.delete(callback);
+    };
+  }, []);
+
+  const getScroll = useCallback(() => scrollRef.current, []);
+
   const updateScroll = useCallback(() => {
     const target = resolveScrollTarget(scrollContainer);
     if (!target) return;
@@ -63,8 +100,15 @@ export function ParallaxProvider({
     lastScrollRef.current = now;
 
     const state = getScrollState(target);
-    setScrollY(state.scrollTop);
-    setScrollX(state.scrollLeft);
+    const scroll = scrollRef.current;
+    if (
+      scroll.scrollY === state.scrollTop &&
+      scroll.scrollX === state.scrollLeft
+    ) {
+      return;
+    }
+    scrollRef.current = { scrollX: state.scrollLeft, scrollY: state.scrollTop };
+    subscribersRef.current.forEach((cb) => cb(scrollRef.current));
   }, [throttle, scrollContainer]);
 
   const handleScroll = useCallback(() => {
@@ -123,30 +167,82 @@ export function ParallaxProvider({
     };
   }, [handleScroll, updateViewport, updateScroll, scrollContainer]);
 
-  const value: ParallaxContextValue = {
-    scrollY,
-    scrollX,
-    viewportHeight,
-    viewportWidth,
-    scrollContainerRef: scrollContainer,
-    registerLayer,
-    unregisterLayer,
-  };
+  const value = useMemo(
+    (): ParallaxContextValue => ({
+      // Live position for code reading the context directly. It no longer
+      // re-renders on scroll; useParallax() does.
+      get scrollX() {
+        return scrollRef.current.scrollX;
+      },
+      get scrollY() {
+        return scrollRef.current.scrollY;
+      },
+      viewportHeight,
+      viewportWidth,
+      axis,
+      reducedMotion: isReducedMotion,
+      scrollContainerRef: scrollContainer,
+      registerLayer,
+      unregisterLayer,
+      subscribeScroll,
+      getScroll,
+    }),
+    [
+      viewportHeight,
+      viewportWidth,
+      axis,
+      isReducedMotion,
+      scrollContainer,
+      registerLayer,
+      unregisterLayer,
+      subscribeScroll,
+      getScroll,
+    ],
+  );
 
   return (
     <ParallaxContext.Provider value={value}>
-      <div style={{ scrollBehavior: smooth ? "smooth" : "auto" }}>
-        {children}
-      </div>
+      <ReducedMotionContext.Provider value={reducedMotionPolicy}>
+        <div
+          style={{
+            scrollBehavior: smooth && !isReducedMotion ? "smooth" : "auto",
+          }}
+        >
+          {children}
+        </div>
+      </ReducedMotionContext.Provider>
     </ParallaxContext.Provider>
   );
 }
 
+/**
+ * Hook that returns the provider value with the current scroll position.
+ * Re-renders on every scroll update.
+ */
 export function useParallax(): ParallaxContextValue {
   const context = useContext(ParallaxContext);
   if (!context) {
     throw new Error("useParallax must be used within a ParallaxProvider");
   }
+
+  const [scroll, setScroll] = useState(context.getScroll());
+
+  useEffect(() => {
+    return context.subscribeScroll(setScroll);
+  }, [context]);
+
+  return { ...context, ...scroll };
+}
+
+/**
+ * Hook that returns the raw provider value for imperative scroll
+ * subscriptions. Scrolling doesn't re-render the caller.
+ */
+export function useParallaxRef(): ParallaxStoreValue {
+  const context = useContext(ParallaxContext);
+  if (!context) {
+    throw new Error("useParallaxRef must be used within a ParallaxProvider");
+  }
   return context;
 }
 
@@ -1,6 +1,6 @@
 import React, { useRef, useEffect, useId, useState, useCallback } from "react";
-import { useParallax } from "./ParallaxContext";
-import { ParallaxLayerProps } from "./types";
+import { useParallaxRef } from "./ParallaxContext";
+import { ParallaxLayerProps, ParallaxScrollState } from "./types";
 import { resolveScrollTarget } from "./useScrollContainer";
 import {
   normalizeDirection,
@@ -10,6 +10,20 @@ import {
   clamp,
 } from "./utils";
 
+interface LayerTransform {
+  x: number;
+  y: number;
+  rotate: number;
+}
+
+function formatTransform({ x, y, rotate }: LayerTransform): string {
+  let transform = `translate3d(${x}px, ${y}px, 0)`;
+  if (rotate !== 0) {
+    transform += ` rotate(${rotate}deg)`;
+  }
+  return transform;
+}
+
 export function ParallaxLayer({
   children,
   className,
@@ -26,19 +40,112 @@ export function ParallaxLayer({
   const generatedId = useId();
   const id = customId || generatedId;
   const elementRef = useRef<HTMLDivElement>(null);
-  const initialOffsetRef = useRef<{ offsetTop: number; height: number } | null>(
-    null,
-  );
+  const initialOffsetRef = useRef<{
+    offsetTop: number;
+    offsetLeft: number;
+    height: number;
+    width: number;
+  } | null>(null);
   const {
-    scrollY,
     viewportHeight,
+    viewportWidth,
+    axis,
+    reducedMotion,
     scrollContainerRef,
     registerLayer,
     unregisterLayer,
-  } = useParallax();
-  const [transform, setTransform] = useState({ x: 0, y: 0, rotate: 0 });
+    subscribeScroll,
+    getScroll,
+  } = useParallaxRef();
+  // Set once the initial position is captured, the only re-render on mount
   const [isReady, setIsReady] = useState(false);
-  const rafRef = useRef<number | null>(null);
+
+  // Calculate the transform for a scroll position
+  const getTransform = useCallback(
+    ({ scrollX, scrollY }: ParallaxScrollState): LayerTransform => {
+      // Layers stay put when motion is reduced
+      if (reducedMotion || !initialOffsetRef.current) {
+        return { x: 0, y: 0, rotate: 0 };
+      }
+
+      const { offsetTop, offsetLeft, height, width } = initialOffsetRef.current;
+
+      // Element visibility progress along one axis of the scrollable area
+      const axisProgress = (
+        scroll: number,
+        offset: number,
+        size: number,
+        viewport: number,
+      ) => {
+        const adjusted = offset - scrollOffset;
+        const start = adjusted - viewport;
+        const end = adjusted + size;
+        const range = end - start;
+        return range === 0 ? 0.5 : clamp((scroll - start) / range, 0, 1);
+      };
+
+      const progressY = axisProgress(
+        scrollY,
+        offsetTop,
+        height,
+        viewportHeight,
+      );
+      const progressX = axisProgress(scrollX, offsetLeft, width, viewportWidth);
+      const progress =
+        axis === "x"
+          ? progressX
+          : axis === "both"
+            ? (progressX + progressY) / 2
+            : progressY;
+
+      // If using motion path
+      if (motionPath) {
+        const easedProgress = pathEase(progress);
+        const pathProgress = clamp(easedProgress + pathOffset, 0, 1);
+
+        const point = getPointOnPath(motionPath, pathProgress);
+        const rotate = autoRotate
+          ? getPathTangent(motionPath, pathProgress)
+          : 0;
+
+        return { x: point.x * speed, y: point.y * speed, rotate };
+      }
+
+      // Standard parallax based on direction
+      const dir = normalizeDirection(direction);
+
+      if (axis === "both") {
+        // Each axis drives its own component of the direction
+        return {
+          x: (progressX - 0.5) * viewportWidth * speed * dir.x,
+          y: (progressY - 0.5) * viewportHeight * speed * dir.y,
+          rotate: 0,
+        };
+      }
+
+      const viewport = axis === "x" ? viewportWidth : viewportHeight;
+      const offset = (progress - 0.5) * viewport * speed;
+
+      return { x: offset * dir.x, y: offset * dir.y, rotate: 0 };
+    },
+    [
+      axis,
+      reducedMotion,
+      viewportHeight,
+      viewportWidth,
+      speed,
+      direction,
+      motionPath,
+      pathOffset,
+      pathEase,
+      autoRotate,
+      scrollOffset,
+    ],
+  );
+
+  // Rendered from the live scroll position so re-renders keep the
+  // transform that scroll updates wrote
+  const transform = formatTransform(getTransform(getScroll()));
 
   // Capture initial position on first render
   useEffect(() => {
@@ -55,17 +162,23 @@ export function ParallaxLayer({
           // Element's position relative to the container's scrollable content
           const offsetTop =
             elementRect.top - containerRect.top + containerEl.scrollTop;
+          const offsetLeft =
+            elementRect.left - containerRect.left + containerEl.scrollLeft;
 
           initialOffsetRef.current = {
             offsetTop,
+            offsetLeft,
             height: elementRect.height,
+            width: elementRect.width,
           };
         } else {
           // For window: use document-relative position
           const rect = elementRef.current.getBoundingClientRect();
           initialOffsetRef.current = {
             offsetTop: rect.top + window.scrollY,
+            offsetLeft: rect.left + window.scrollX,
             height: rect.height,
+            width: rect.width,
           };
         }
         setIsReady(true);
@@ -109,75 +222,17 @@ export function ParallaxLayer({
     unregisterLayer,
   ]);
 
-  // Calculate transform using RAF for smooth updates
-  const updateTransform = useCallback(() => {
-    if (!isReady || !initialOffsetRef.current) return;
-
-    const currentScrollY = scrollY;
-    const { offsetTop, height: elementHeight } = initialOffsetRef.current;
-    const adjustedTop = offsetTop - scrollOffset;
-
-    // Element visibility range within the scrollable area
-    const start = adjustedTop - viewportHeight;
-    const end = adjustedTop + elementHeight;
-    const range = end - start;
-
-    const progress =
-      range === 0 ? 0.5 : clamp((currentScrollY - start) / range, 0, 1);
-
-    // If using motion path
-    if (motionPath) {
-      const easedProgress = pathEase(progress);
-      const pathProgress = clamp(easedProgress + pathOffset, 0, 1);
-
-      const point = getPointOnPath(motionPath, pathProgress);
-      const rotate = autoRotate ? getPathTangent(motionPath, pathProgress) : 0;
-
-      setTransform({
-        x: point.x * speed,
-        y: point.y * speed,
-        rotate,
-      });
-      return;
-    }
-
-    // Standard parallax based on direction
-    const dir = normalizeDirection(direction);
-    const offset = (progress - 0.5) * viewportHeight * speed;
-
-    setTransform({
-      x: offset * dir.x,
-      y: offset * dir.y,
-      rotate: 0,
-    });
-  }, [
-    scrollY,
-    isReady,
-    viewportHeight,
-    speed,
-    direction,
-    motionPath,
-    pathOffset,
-    pathEase,
-    autoRotate,
-    scrollOffset,
-  ]);
-
-  // Update transform whenever scrollY changes
+  // Write the transform straight to the element on scroll, without re-rendering
   useEffect(() => {
-    if (rafRef.current) cancelAnimationFrame(rafRef.current);
-    rafRef.current = requestAnimationFrame(updateTransform);
-
-    return () => {
-      if (rafRef.current) cancelAnimationFrame(rafRef.current);
-    };
-  }, [scrollY, updateTransform]);
-
-  const { x, y, rotate } = transform;
-  let transformString = `translate3d(${x}px, ${y}px, 0)`;
-  if (rotate !== 0) {
-    transformString += ` rotate(${rotate}deg)`;
-  }
+    if (!isReady) return;
+    return subscribeScroll((scroll) => {
+      if (elementRef.current) {
+        elementRef.current.style.transform = formatTransform(
+          getTransform(scroll),
+        );
+      }
+    });
+  }, [isReady, subscribeScroll, getTransform]);
 
   return (
     <div
@@ -185,8 +240,8 @@ export function ParallaxLayer({
       className={className}
       style={{
         ...style,
-        transform: transformString,
-        willChange: "transform",
+        transform,
+        willChange: reducedMotion ? undefined : "transform",
       }}
       data-parallax-layer={id}
     >
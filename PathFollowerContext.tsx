@@ -7,25 +7,168 @@ import React, {
   useState,
 } from "react";
 import { applyEasing } from "./easing";
-import { SegmentTracker } from "./PathSegment";
+import {
+  PathSegment,
+  SegmentTracker,
+  createProgressRemap,
+  getSegmentSnapPoints,
+  invertProgressRemap,
+} from "./PathSegment";
+import { getPathSampler } from "./pathCache";
+import {
+  SegmentBoundContext,
+  SegmentDefinition,
+  getSegmentTargets,
+  resolveSegment,
+  resolveStaticSegment,
+} from "./segmentBounds";
+import { SmoothingState, stepSmoothing } from "./smoothing";
 import { resolveScrollTarget, getScrollState } from "./useScrollContainer";
+import {
+  ScrollRange,
+  getScrollRangeProgress,
+  getScrollPositionForProgress,
+} from "./scrollRange";
+import {
+  ScrollAnimation,
+  ScrollAnimationOptions,
+  animateScroll,
+} from "./scrollAnimator";
+import {
+  ReducedMotionContext,
+  useReducedMotion,
+  useReducedMotionPolicy,
+} from "./useReducedMotion";
 import {
   PathFollowerState,
   PathFollowerSubscriber,
   PathFollowerContextValue,
   PathFollowerProviderProps,
+  PathFollowerLoopStats,
+  PathTrackState,
+  ScrollToSegmentOptions,
+  ScrollToPointOptions,
   DEFAULT_PATH_FOLLOWER_STATE,
+  DEFAULT_TRACK_ID,
 } from "./pathFollowerTypes";
 
+/** Progress and velocity below this count as settled */
+const SETTLE_EPSILON = 0.0001;
+
+/** Nominal frame duration used to estimate skipped frames */
+const FRAME_MS = 1000 / 60;
+
 const PathFollowerContext = createContext<PathFollowerContextValue | null>(
   null,
 );
 
+interface TrackRegistration {
+  path: SVGPathElement;
+  svg: SVGSVGElement;
+}
+
+/**
+ * Step progress back to the latest waypoint (segment start) it has passed.
+ * The path ends count as waypoints so the follower can reach both.
+ * Without waypoints progress passes through, as with "instant".
+ */
+function stepToWaypoint(progress: number, waypoints: number[]): number {
+  if (waypoints.length === 0) return progress;
+  if (progress >= 1) return 1;
+  let stepped = 0;
+  for (const waypoint of waypoints) {
+    if (waypoint <= progress) stepped = waypoint;
+  }
+  return stepped;
+}
+
+/**
+ * Look up a track, falling back to the first one for the default track
+ * the same way the primary state does
+ */
+function getTrack<T>(tracks: Map<string, T>, trackId: string): T | undefined {
+  return (
+    tracks.get(trackId) ??
+    (trackId === DEFAULT_TRACK_ID ? tracks.values().next().value : undefined)
+  );
+}
+
+function getStaticSegments(definitions: SegmentDefinition[]): PathSegment[] {
+  return definitions
+    .map(resolveStaticSegment)
+    .filter((segment): segment is PathSegment => segment !== null);
+}
+
+function isSameSegment(a: PathSegment, b: PathSegment): boolean {
+  const keys = Object.keys(a) as (keyof PathSegment)[];
+  return (
+    keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k])
+  );
+}
+
+/**
+ * Resolve segment definitions that depend on paths or layout and apply the
+ * results to the tracker. Returns whether any tracked segment changed.
+ */
+function syncSegments(
+  tracker: SegmentTracker,
+  definitions: Map<string, SegmentDefinition>,
+  context: SegmentBoundContext,
+): boolean {
+  let changed = false;
+  definitions.forEach((definition, id) => {
+    if (resolveStaticSegment(definition)) return;
+    const resolved = resolveSegment(definition, context);
+    const current = tracker.getSegments().find((s) => s.id === id);
+    if (!resolved) {
+      if (!current) return;
+      tracker.removeSegment(id);
+      changed = true;
+    } else if (!current || !isSameSegment(current, resolved)) {
+      tracker.addSegment(resolved);
+      changed = true;
+    }
+  });
+  return changed;
+}
+
+/**
+ * Measure a registered track at the given progress
+ */
+function measureTrack(
+  { path, svg }: TrackRegistration,
+  progress: number,
+): PathTrackState {
+  const sampler = getPathSampler(path);
+  const point = sampler.pointAt(progress);
+  const tangent = sampler.tangentAt(progress);
+  const angle = Math.atan2(tangent.y, tangent.x) * (180 / Math.PI);
+
+  let screenX = 0;
+  let screenY = 0;
+  const ctm = svg.getScreenCTM();
+  if (ctm) {
+    const pt = svg.createSVGPoint();
+    pt.x = point.x;
+    pt.y = point.y;
+    const screenPt = pt.matrixTransform(ctm);
+    screenX = screenPt.x;
+    screenY = screenPt.y;
+  }
+
+  return {
+    position: { x: point.x, y: point.y },
+    screenPosition: { x: screenX, y: screenY },
+    angle,
+  };
+}
+
 /**
  * Hook that subscribes to path follower state changes.
  * Triggers re-renders when state changes.
+ * Pass a track id to read position, angle and screenPosition for that track.
  */
-export function usePathFollower() {
+export function usePathFollower(trackId?: string) {
   const context = useContext(PathFollowerContext);
   if (!context) {
     throw new Error(
@@ -41,15 +184,29 @@ export function usePathFollower() {
     });
   }, [context]);
 
+  const track = trackId ? state.tracks[trackId] : undefined;
+
   return {
     ...state,
+    ...track,
     registerPath: context.registerPath,
     unregisterPath: context.unregisterPath,
+    registerScrollRange: context.registerScrollRange,
+    unregisterScrollRange: context.unregisterScrollRange,
     addSegment: context.addSegment,
     removeSegment: context.removeSegment,
     subscribeToSegment: context.subscribeToSegment,
+    subscribeToAllSegments: context.subscribeToAllSegments,
     isSegmentActive: context.isSegmentActive,
     getActiveSegments: context.getActiveSegments,
+    getSegmentState: context.getSegmentState,
+    scrollToProgress: context.scrollToProgress,
+    scrollToSegment: context.scrollToSegment,
+    scrollToPoint: context.scrollToPoint,
+    primeTrack: context.primeTrack,
+    sampleAt: context.sampleAt,
+    getPathLength: context.getPathLength,
+    getEasedProgress: context.getEasedProgress,
   };
 }
 
@@ -76,55 +233,213 @@ export function PathFollowerProvider({
   smoothing = 0.15,
   smooth = true,
   segments: initialSegments = [],
+  segmentBoundaries,
   scrollContainer,
+  axis = "y",
+  start,
+  end,
+  snap,
+  initialProgress = 0,
+  initialViewport,
+  reducedMotion,
+  reducedMotionFallback = "waypoints",
 }: PathFollowerProviderProps) {
-  const pathRef = useRef<SVGPathElement | null>(null);
-  const svgRef = useRef<SVGSVGElement | null>(null);
-  const smoothProgressRef = useRef(0);
-  const lastProgressRef = useRef(0);
-  const lastTimeRef = useRef(Date.now());
+  const reducedMotionPolicy = useReducedMotionPolicy(reducedMotion);
+  const isReducedMotion = useReducedMotion(reducedMotionPolicy);
+  // Read by the RAF loop and scroll animations
+  const reducedMotionRef = useRef({
+    reduced: isReducedMotion,
+    fallback: reducedMotionFallback,
+  });
+  reducedMotionRef.current = {
+    reduced: isReducedMotion,
+    fallback: reducedMotionFallback,
+  };
+  const tracksRef = useRef<Map<string, TrackRegistration>>(new Map());
+  // Static measurements from primeTrack, used by sampleAt until tracks register
+  const primedTracksRef = useRef<
+    Map<string, (easedProgress: number) => PathTrackState>
+  >(new Map());
+  const registeredRangeRef = useRef<ScrollRange | null>(null);
+  // Read by the RAF loop so inline start/end objects don't restart it
+  const rangePropsRef = useRef<ScrollRange>({ start, end });
+  rangePropsRef.current = { start, end };
+  const smoothStateRef = useRef<SmoothingState>({
+    value: initialProgress,
+    velocity: 0,
+  });
+  const lastProgressRef = useRef(initialProgress);
+  const lastTimeRef = useRef(0);
+  // Read by the RAF loop so inline smoothing configs don't restart it
+  const smoothingRef = useRef(smoothing);
+  smoothingRef.current = smoothing;
   const subscribersRef = useRef<Set<PathFollowerSubscriber>>(new Set());
-  const segmentTrackerRef = useRef(new SegmentTracker(initialSegments));
-  const stateRef = useRef<PathFollowerState>({
-    ...DEFAULT_PATH_FOLLOWER_STATE,
+  const wakeRef = useRef<(() => void) | null>(null);
+  // Scroll target the loop listens to, compared after renders
+  const listenedTargetRef = useRef<Window | HTMLElement | null>(null);
+  const sleepStartRef = useRef<number | null>(null);
+  const loopStatsRef = useRef({ framesRun: 0, framesSkipped: 0 });
+  // Definitions as given; bounds resolved against paths and layout go to the tracker
+  const segmentDefinitionsRef = useRef(
+    new Map(initialSegments.map((segment) => [segment.id, segment])),
+  );
+  const segmentTrackerRef = useRef(
+    new SegmentTracker(getStaticSegments(initialSegments), {
+      boundaries: segmentBoundaries,
+    }),
+  );
+  segmentTrackerRef.current.setOptions({ boundaries: segmentBoundaries });
+  // Scroll-to-path remapping from segment weights and easing, rebuilt lazily
+  const remapRef = useRef<((progress: number) => number) | null>(null);
+  const scrollAnimationRef = useRef<ScrollAnimation | null>(null);
+  // Scroll progress a navigation arrived at, which snapping leaves alone
+  const navigatedProgressRef = useRef<number | null>(null);
+  const snapRef = useRef(snap);
+  snapRef.current = snap;
+  // Deterministic first state, so server and first client render match
+  const [initialState] = useState((): PathFollowerState => {
+    const pathProgress = createProgressRemap(
+      segmentTrackerRef.current.getSegments(),
+    )(initialProgress);
+    return {
+      ...DEFAULT_PATH_FOLLOWER_STATE,
+      scrollProgress: initialProgress,
+      pathProgress,
+      easedProgress: applyEasing(pathProgress, easing),
+      viewport: initialViewport ?? DEFAULT_PATH_FOLLOWER_STATE.viewport,
+    };
   });
+  const stateRef = useRef<PathFollowerState>(initialState);
+  // State with primed track measurements, derived from `source`
+  const primedStateRef = useRef<{
+    source: PathFollowerState;
+    state: PathFollowerState;
+  } | null>(null);
 
   const notify = useCallback(() => {
     subscribersRef.current.forEach((cb) => cb(stateRef.current));
   }, []);
 
-  const subscribe = useCallback((callback: PathFollowerSubscriber) => {
-    subscribersRef.current.add(callback);
-    callback(stateRef.current);
-    return () => {
-      subscribersRef.current.delete(callback);
-    };
+  // Primed tracks show until the loop has measured
+  const getState = useCallback((): PathFollowerState => {
+    const state = stateRef.current;
+    const primed = primedTracksRef.current;
+    if (loopStatsRef.current.framesRun > 0 || primed.size === 0) return state;
+    if (primedStateRef.current?.source !== state) {
+      const tracks = { ...state.tracks };
+      primed.forEach((measure, trackId) => {
+        tracks[trackId] = measure(state.easedProgress);
+      });
+      const primaryTrack = tracks[DEFAULT_TRACK_ID] ?? Object.values(tracks)[0];
+      primedStateRef.current = {
+        source: state,
+        state: { ...state, ...primaryTrack, tracks },
+      };
+    }
+    return primedStateRef.current.state;
   }, []);
 
-  const getState = useCallback(() => stateRef.current, []);
+  const subscribe = useCallback(
+    (callback: PathFollowerSubscriber) => {
+      subscribersRef.current.add(callback);
+      callback(getState());
+      return () => {
+        subscribersRef.current.delete(callback);
+      };
+    },
+    [getState],
+  );
+
+  // Provider start/end props take precedence over a registered range
+  const getRange = useCallback((): ScrollRange => {
+    const rangeProps = rangePropsRef.current;
+    const hasRangeProps =
+      rangeProps.start !== undefined || rangeProps.end !== undefined;
+    return hasRangeProps ? rangeProps : (registeredRangeRef.current ?? {});
+  }, []);
+
+  const getRemap = useCallback(() => {
+    if (!remapRef.current) {
+      remapRef.current = createProgressRemap(
+        segmentTrackerRef.current.getSegments(),
+      );
+    }
+    return remapRef.current;
+  }, []);
+
+  const primeTrack = useCallback(
+    (trackId: string, measure: (easedProgress: number) => PathTrackState) => {
+      // Live measurements win once the loop has run
+      if (loopStatsRef.current.framesRun > 0) return () => {};
+      // Only records the measurement, so priming again is harmless
+      primedTracksRef.current.set(trackId, measure);
+      primedStateRef.current = null;
+      return () => {
+        if (primedTracksRef.current.get(trackId) !== measure) return;
+        primedTracksRef.current.delete(trackId);
+        primedStateRef.current = null;
+      };
+    },
+    [],
+  );
 
   const registerPath = useCallback(
-    (pathElement: SVGPathElement, svgElement: SVGSVGElement) => {
-      pathRef.current = pathElement;
-      svgRef.current = svgElement;
+    (
+      pathElement: SVGPathElement,
+      svgElement: SVGSVGElement,
+      _viewBoxHeight: number,
+      trackId: string = DEFAULT_TRACK_ID,
+    ) => {
+      tracksRef.current.set(trackId, { path: pathElement, svg: svgElement });
+      wakeRef.current?.();
     },
     [],
   );
 
-  const unregisterPath = useCallback(() => {
-    pathRef.current = null;
-    svgRef.current = null;
+  const unregisterPath = useCallback((trackId: string = DEFAULT_TRACK_ID) => {
+    tracksRef.current.delete(trackId);
+    wakeRef.current?.();
   }, []);
 
-  const addSegment = useCallback(
-    (segment: Parameters<typeof segmentTrackerRef.current.addSegment>[0]) => {
-      segmentTrackerRef.current.addSegment(segment);
+  const sampleAt = useCallback(
+    (progress: number, trackId: string = DEFAULT_TRACK_ID) => {
+      const clamped = Math.max(0, Math.min(1, progress));
+      const registration = getTrack(tracksRef.current, trackId);
+      if (registration) return measureTrack(registration, clamped);
+      const measure = getTrack(primedTracksRef.current, trackId);
+      return measure ? measure(clamped) : null;
     },
     [],
   );
 
+  const getPathLength = useCallback((trackId: string = DEFAULT_TRACK_ID) => {
+    const registration = getTrack(tracksRef.current, trackId);
+    return registration ? getPathSampler(registration.path).length : 0;
+  }, []);
+
+  const registerScrollRange = useCallback((range: ScrollRange) => {
+    registeredRangeRef.current = range;
+    wakeRef.current?.();
+  }, []);
+
+  const unregisterScrollRange = useCallback(() => {
+    registeredRangeRef.current = null;
+  }, []);
+
+  const addSegment = useCallback((definition: SegmentDefinition) => {
+    segmentDefinitionsRef.current.set(definition.id, definition);
+    // Other bounds resolve on the next frame, once paths and layout exist
+    const segment = resolveStaticSegment(definition);
+    if (segment) segmentTrackerRef.current.addSegment(segment);
+    remapRef.current = null;
+    wakeRef.current?.();
+  }, []);
+
   const removeSegment = useCallback((id: string) => {
+    segmentDefinitionsRef.current.delete(id);
     segmentTrackerRef.current.removeSegment(id);
+    remapRef.current = null;
+    wakeRef.current?.();
   }, []);
 
   const subscribeToSegment = useCallback(
@@ -137,6 +452,15 @@ export function PathFollowerProvider({
     [],
   );
 
+  const subscribeToAllSegments = useCallback(
+    (
+      callback: Parameters<typeof segmentTrackerRef.current.subscribeAll>[0],
+    ) => {
+      return segmentTrackerRef.current.subscribeAll(callback);
+    },
+    [],
+  );
+
   const isSegmentActive = useCallback((segmentId: string) => {
     return segmentTrackerRef.current.isActive(segmentId);
   }, []);
@@ -145,111 +469,449 @@ export function PathFollowerProvider({
     return segmentTrackerRef.current.getActiveSegments();
   }, []);
 
+  const getSegmentState = useCallback((segmentId: string) => {
+    return segmentTrackerRef.current.getSegmentState(segmentId);
+  }, []);
+
+  // Replaces any running scroll animation, snap glides included
+  const startScrollAnimation = useCallback(
+    (
+      target: Window | HTMLElement,
+      scrollProgress: number,
+      options?: ScrollAnimationOptions,
+    ) => {
+      scrollAnimationRef.current?.cancel();
+      const animation = animateScroll(
+        target,
+        getScrollPositionForProgress(target, scrollProgress, getRange(), axis),
+        // Jump instead of gliding when motion is reduced
+        reducedMotionRef.current.reduced
+          ? { ...options, duration: 0 }
+          : options,
+      );
+      scrollAnimationRef.current = animation;
+      animation.promise.then(() => {
+        if (scrollAnimationRef.current === animation) {
+          scrollAnimationRef.current = null;
+        }
+      });
+      return animation;
+    },
+    [getRange, axis],
+  );
+
+  // Read by the stable scrollTo* callbacks
+  const navigationRef = useRef({
+    scrollContainer,
+    easing,
+    axis,
+    startScrollAnimation,
+  });
+  navigationRef.current = {
+    scrollContainer,
+    easing,
+    axis,
+    startScrollAnimation,
+  };
+
+  const getEasedProgress = useCallback(
+    (pathProgress: number) =>
+      applyEasing(pathProgress, navigationRef.current.easing),
+    [],
+  );
+
+  const scrollToProgress = useCallback(
+    (progress: number, options?: ScrollAnimationOptions) => {
+      const { scrollContainer, axis, startScrollAnimation } =
+        navigationRef.current;
+      const target = resolveScrollTarget(scrollContainer);
+      if (!target) return Promise.resolve(false);
+      const pathProgress = Math.max(0, Math.min(1, progress));
+      navigatedProgressRef.current = null;
+      return startScrollAnimation(
+        target,
+        invertProgressRemap(getRemap(), pathProgress),
+        options,
+      ).promise.then((arrived) => {
+        // Its last scroll event comes after arrival; don't snap away from it
+        if (arrived) {
+          navigatedProgressRef.current = getScrollRangeProgress(
+            target,
+            getRange(),
+            axis,
+          );
+        }
+        return arrived;
+      });
+    },
+    [getRemap, getRange],
+  );
+
+  const scrollToSegment = useCallback(
+    (
+      segmentId: string,
+      { align = "start", ...options }: ScrollToSegmentOptions = {},
+    ) => {
+      const segment = segmentTrackerRef.current
+        .getSegments()
+        .find((s) => s.id === segmentId);
+      if (!segment) return Promise.resolve(false);
+      const progress =
+        align === "start"
+          ? segment.start
+          : align === "end"
+            ? segment.end
+            : (segment.start + segment.end) / 2;
+      return scrollToProgress(progress, options);
+    },
+    [scrollToProgress],
+  );
+
+  const scrollToPoint = useCallback(
+    (
+      x: number,
+      y: number,
+      { track = DEFAULT_TRACK_ID, ...options }: ScrollToPointOptions = {},
+    ) => {
+      const registration = getTrack(tracksRef.current, track);
+      if (!registration) return Promise.resolve(false);
+      // Points sit at eased progress, so undo the easing first
+      const easedProgress = getPathSampler(registration.path).nearestProgress(
+        x,
+        y,
+      );
+      const pathProgress = invertProgressRemap(getEasedProgress, easedProgress);
+      return scrollToProgress(pathProgress, options);
+    },
+    [scrollToProgress, getEasedProgress],
+  );
+
   useEffect(() => {
-    let rafId: number;
+    let rafId: number | null = null;
     let isRunning = true;
+    let resizeObserver: ResizeObserver | null = null;
+    // Elements segment bounds are measured from
+    let observedTargets = new Set<Element>();
+
+    const schedule = () => {
+      if (rafId === null) rafId = requestAnimationFrame(tick);
+    };
+
+    const wake = () => {
+      if (!isRunning) return;
+      if (sleepStartRef.current !== null) {
+        // Count the frames the loop didn't have to run while asleep
+        const slept = performance.now() - sleepStartRef.current;
+        loopStatsRef.current.framesSkipped += Math.floor(slept / FRAME_MS);
+        sleepStartRef.current = null;
+        lastTimeRef.current = 0;
+      }
+      schedule();
+    };
+
+    const detach = () => {
+      listenedTargetRef.current?.removeEventListener("scroll", wake);
+      window.removeEventListener("resize", wake);
+      resizeObserver?.disconnect();
+      resizeObserver = null;
+      observedTargets = new Set();
+      listenedTargetRef.current = null;
+    };
+
+    const attach = (target: Window | HTMLElement) => {
+      detach();
+      listenedTargetRef.current = target;
+      target.addEventListener("scroll", wake, { passive: true });
+      window.addEventListener("resize", wake, { passive: true });
+      if (typeof ResizeObserver === "undefined") return;
+      resizeObserver = new ResizeObserver(wake);
+      // Content resizing moves the elements segment bounds measure
+      if (target === window) {
+        resizeObserver.observe(document.body);
+      } else {
+        const element = target as HTMLElement;
+        resizeObserver.observe(element);
+        Array.from(element.children).forEach((child) =>
+          resizeObserver!.observe(child),
+        );
+      }
+    };
+
+    // Follow the elements of current segment definitions as they come and go
+    const observeSegmentTargets = () => {
+      if (!resizeObserver) return;
+      const targets = new Set<Element>();
+      segmentDefinitionsRef.current.forEach((definition) =>
+        getSegmentTargets(definition).forEach((t) => targets.add(t)),
+      );
+      targets.forEach((t) => {
+        if (!observedTargets.has(t)) resizeObserver!.observe(t);
+      });
+      observedTargets.forEach((t) => {
+        if (!targets.has(t)) resizeObserver!.unobserve(t);
+      });
+      observedTargets = targets;
+    };
 
     const tick = () => {
+      rafId = null;
       if (!isRunning) return;
 
-      const path = pathRef.current;
-      const svg = svgRef.current;
+      const tracks = tracksRef.current;
       const target = resolveScrollTarget(scrollContainer);
+      if (target && target !== listenedTargetRef.current) attach(target);
+      observeSegmentTargets();
 
-      if (path && svg && target) {
+      let settled = false;
+      if (tracks.size > 0 && target) {
         const scrollState = getScrollState(target);
-        const { scrollTop, scrollHeight, clientHeight, clientWidth } =
-          scrollState;
+        const { clientHeight, clientWidth } = scrollState;
 
-        const maxScroll = scrollHeight - clientHeight;
-        const rawProgress = maxScroll > 0 ? scrollTop / maxScroll : 0;
+        const rawProgress = getScrollRangeProgress(target, getRange(), axis);
+
+        const now = performance.now();
+        const dt = lastTimeRef.current ? (now - lastTimeRef.current) / 1000 : 0;
+        lastTimeRef.current = now;
 
+        const { reduced, fallback } = reducedMotionRef.current;
         let progress: number;
-        if (smooth) {
-          smoothProgressRef.current +=
-            (rawProgress - smoothProgressRef.current) * smoothing;
-          progress = smoothProgressRef.current;
+        let velocity: number;
+        if (smooth && !reduced) {
+          smoothStateRef.current = stepSmoothing(
+            smoothStateRef.current,
+            rawProgress,
+            dt,
+            smoothingRef.current,
+          );
+          progress = smoothStateRef.current.value;
+          velocity = smoothStateRef.current.velocity;
         } else {
+          velocity = dt > 0 ? (rawProgress - lastProgressRef.current) / dt : 0;
+          smoothStateRef.current = { value: rawProgress, velocity };
           progress = rawProgress;
         }
 
-        const easedProgress = applyEasing(progress, easing);
-
-        const totalLength = path.getTotalLength();
-        const pointAtLength = easedProgress * totalLength;
-        const point = path.getPointAtLength(pointAtLength);
-
-        const delta = Math.max(1, totalLength * 0.002);
-        const p1 = path.getPointAtLength(Math.max(0, pointAtLength - delta));
-        const p2 = path.getPointAtLength(
-          Math.min(totalLength, pointAtLength + delta),
+        // Length, anchor and element bounds follow path and layout changes
+        const segmentsChanged = syncSegments(
+          segmentTrackerRef.current,
+          segmentDefinitionsRef.current,
+          {
+            getPath: (trackId = DEFAULT_TRACK_ID) =>
+              getTrack(tracks, trackId)?.path,
+            easing,
+            scrollTarget: target,
+            range: getRange(),
+            axis,
+            remap: getRemap(),
+          },
         );
-        const angle = Math.atan2(p2.y - p1.y, p2.x - p1.x) * (180 / Math.PI);
-
-        let screenX = 0;
-        let screenY = 0;
-        const ctm = svg.getScreenCTM();
-        if (ctm) {
-          const pt = svg.createSVGPoint();
-          pt.x = point.x;
-          pt.y = point.y;
-          const screenPt = pt.matrixTransform(ctm);
-          screenX = screenPt.x;
-          screenY = screenPt.y;
-        }
+        if (segmentsChanged) remapRef.current = null;
+
+        const trackedProgress = getRemap()(progress);
+        const pathProgress =
+          reduced && fallback === "waypoints"
+            ? stepToWaypoint(
+                trackedProgress,
+                getSegmentSnapPoints(segmentTrackerRef.current.getSegments()),
+              )
+            : trackedProgress;
+        const easedProgress = applyEasing(pathProgress, easing);
+
+        const trackStates: Record<string, PathTrackState> = {};
+        tracks.forEach((registration, trackId) => {
+          trackStates[trackId] = measureTrack(registration, easedProgress);
+        });
+        const primaryTrack =
+          trackStates[DEFAULT_TRACK_ID] ?? Object.values(trackStates)[0];
 
-        const now = Date.now();
-        const dt = (now - lastTimeRef.current) / 1000;
-        const velocity =
-          dt > 0 ? Math.abs(progress - lastProgressRef.current) / dt : 0;
         const direction: 1 | -1 = progress >= lastProgressRef.current ? 1 : -1;
-
         lastProgressRef.current = progress;
-        lastTimeRef.current = now;
 
-        segmentTrackerRef.current.update(progress);
+        // Segment events follow the scroll even while the follower steps
+        segmentTrackerRef.current.update(trackedProgress);
 
         stateRef.current = {
           scrollProgress: progress,
-          pathProgress: progress,
+          pathProgress,
           easedProgress,
-          position: { x: point.x, y: point.y },
-          screenPosition: { x: screenX, y: screenY },
-          angle,
+          ...primaryTrack,
           viewport: { width: clientWidth, height: clientHeight },
           direction,
-          velocity,
+          velocity: Math.abs(velocity),
+          signedVelocity: velocity,
+          tracks: trackStates,
         };
 
         notify();
+        loopStatsRef.current.framesRun++;
+
+        // Sleep once the smoothed progress has caught up with the scroll
+        settled =
+          Math.abs(rawProgress - progress) < SETTLE_EPSILON &&
+          Math.abs(velocity) < SETTLE_EPSILON;
+      } else {
+        // Nothing to measure until a path registers (or the target resolves)
+        settled = target !== null;
       }
 
-      rafId = requestAnimationFrame(tick);
+      if (settled) {
+        sleepStartRef.current = performance.now();
+      } else {
+        schedule();
+      }
     };
 
+    wakeRef.current = wake;
+    sleepStartRef.current = null;
     tick();
 
     return () => {
       isRunning = false;
-      cancelAnimationFrame(rafId);
+      wakeRef.current = null;
+      detach();
+      if (rafId !== null) cancelAnimationFrame(rafId);
+    };
+  }, [easing, smooth, notify, scrollContainer, axis, getRange, getRemap]);
+
+  // Glide to the nearest snap point once the user stops scrolling
+  const snapEnabled = Boolean(snap);
+  useEffect(() => {
+    if (!snapEnabled) return;
+    const target = resolveScrollTarget(scrollContainer);
+    if (!target) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let touching = false;
+    let snapAnimation: ScrollAnimation | null = null;
+
+    const settle = () => {
+      const config = snapRef.current;
+      if (!config || touching || scrollAnimationRef.current) return;
+      const {
+        mode = "proximity",
+        points = "starts",
+        threshold = 0.05,
+        duration = 500,
+        easing: snapEasing = "easeInOutCubic",
+      } = config;
+
+      const scrollProgress = getScrollRangeProgress(target, getRange(), axis);
+      const navigated = navigatedProgressRef.current;
+      if (navigated !== null) {
+        if (Math.abs(scrollProgress - navigated) < SETTLE_EPSILON) return;
+        navigatedProgressRef.current = null;
+      }
+
+      const remap = getRemap();
+      const current = remap(scrollProgress);
+      const candidates = getSegmentSnapPoints(
+        segmentTrackerRef.current.getSegments(),
+        points,
+      );
+      if (candidates.length === 0) return;
+
+      const nearest = candidates.reduce((best, point) =>
+        Math.abs(point - current) < Math.abs(best - current) ? point : best,
+      );
+      const distance = Math.abs(nearest - current);
+      if (distance < SETTLE_EPSILON) return;
+      if (mode === "proximity" && distance > threshold) return;
+
+      snapAnimation = startScrollAnimation(
+        target,
+        invertProgressRemap(remap, nearest),
+        { duration, easing: snapEasing },
+      );
+    };
+
+    const schedule = () => {
+      if (scrollAnimationRef.current) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(settle, snapRef.current?.delay ?? 150);
+    };
+
+    const handleTouchStart = () => {
+      touching = true;
+    };
+    const handleTouchEnd = () => {
+      touching = false;
+      schedule();
+    };
+
+    target.addEventListener("scroll", schedule, { passive: true });
+    target.addEventListener("touchstart", handleTouchStart, { passive: true });
+    target.addEventListener("touchend", handleTouchEnd, { passive: true });
+    target.addEventListener("touchcancel", handleTouchEnd, { passive: true });
+
+    return () => {
+      target.removeEventListener("scroll", schedule);
+      target.removeEventListener("touchstart", handleTouchStart);
+      target.removeEventListener("touchend", handleTouchEnd);
+      target.removeEventListener("touchcancel", handleTouchEnd);
+      if (timer) clearTimeout(timer);
+      // Navigation started elsewhere keeps running
+      snapAnimation?.cancel();
     };
-  }, [easing, smoothing, smooth, notify, scrollContainer]);
+  }, [
+    snapEnabled,
+    scrollContainer,
+    axis,
+    getRange,
+    getRemap,
+    startScrollAnimation,
+  ]);
+
+  // Stop scrolling the page once nothing follows it
+  useEffect(() => () => scrollAnimationRef.current?.cancel(), []);
+
+  // Re-measure when the reduced-motion policy flips
+  useEffect(() => {
+    wakeRef.current?.();
+  }, [isReducedMotion, reducedMotionFallback]);
+
+  // A scrollContainer ref can resolve or change after the loop has slept
+  useEffect(() => {
+    const target = resolveScrollTarget(scrollContainer);
+    if (target && target !== listenedTargetRef.current) wakeRef.current?.();
+  });
+
+  const getLoopStats = useCallback(
+    (): PathFollowerLoopStats => ({
+      ...loopStatsRef.current,
+      sleeping: sleepStartRef.current !== null,
+    }),
+    [],
+  );
 
   const contextValue = useRef<PathFollowerContextValue>({
     subscribe,
     getState,
     registerPath,
     unregisterPath,
+    registerScrollRange,
+    unregisterScrollRange,
     addSegment,
     removeSegment,
     subscribeToSegment,
+    subscribeToAllSegments,
     isSegmentActive,
     getActiveSegments,
+    getSegmentState,
+    scrollToProgress,
+    scrollToSegment,
+    scrollToPoint,
+    primeTrack,
+    sampleAt,
+    getPathLength,
+    getEasedProgress,
+    getLoopStats,
   });
 
   return (
     <PathFollowerContext.Provider value={contextValue.current}>
-      {children}
+      <ReducedMotionContext.Provider value={reducedMotionPolicy}>
+        {children}
+      </ReducedMotionContext.Provider>
     </PathFollowerContext.Provider>
   );
 }
@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { usePathFollowerRef } from "./PathFollowerContext";
+import { PathFollowerState } from "./pathFollowerTypes";
+import { useScrollingPath } from "./ScrollingPath";
+import { getPathSampler } from "./pathCache";
+import { invertProgressRemap } from "./PathSegment";
+
+export interface PathMarkerState {
+  /** The marker's segment (or a segment containing it) is active */
+  active: boolean;
+  /** The follower has reached or passed the marker */
+  passed: boolean;
+}
+
+interface PathMarkerProps {
+  /** Position along the path (0-1) */
+  at: number;
+  /** Content, or a render function receiving active/passed state */
+  children?: React.ReactNode | ((state: PathMarkerState) => React.ReactNode);
+  /** Rotate children to follow the path tangent */
+  rotate?: boolean;
+  /** Rotation offset in degrees, applied when rotating */
+  rotationOffset?: number;
+  /** Offset along the path normal in viewBox units (positive = right of travel) */
+  offset?: number;
+  /** Segment id that drives `active`. Default: any active segment containing the marker */
+  segment?: string;
+  /** Element id, which segment bounds can name as an anchor */
+  id?: string;
+  /** Additional className */
+  className?: string;
+}
+
+/**
+ * SVG content anchored to a point on the enclosing ScrollingPath.
+ * Re-renders only when its active or passed state changes.
+ */
+export function PathMarker({
+  at,
+  children,
+  rotate = false,
+  rotationOffset = 0,
+  offset = 0,
+  segment,
+  id,
+  className,
+}: PathMarkerProps) {
+  const { path } = useScrollingPath();
+  const {
+    subscribe,
+    getState,
+    isSegmentActive,
+    getActiveSegments,
+    getEasedProgress,
+  } = usePathFollowerRef();
+
+  const getMarkerState = useCallback(
+    (state: PathFollowerState): PathMarkerState => {
+      let active = false;
+      if (segment) {
+        active = isSegmentActive(segment);
+      } else {
+        const segments = getActiveSegments();
+        // Segments span path progress, `at` sits on the eased path
+        const progress =
+          segments.length > 0 ? invertProgressRemap(getEasedProgress, at) : at;
+        active = segments.some((s) => s.start <= progress && progress <= s.end);
+      }
+      return { active, passed: state.easedProgress >= at };
+    },
+    [at, segment, isSegmentActive, getActiveSegments, getEasedProgress],
+  );
+
+  const [markerState, setMarkerState] = useState(() =>
+    getMarkerState(getState()),
+  );
+
+  useEffect(() => {
+    return subscribe((state) => {
+      const next = getMarkerState(state);
+      setMarkerState((current) =>
+        current.active === next.active && current.passed === next.passed
+          ? current
+          : next,
+      );
+    });
+  }, [subscribe, getMarkerState]);
+
+  const sampler = getPathSampler(path);
+  const point = sampler.pointAt(at);
+  const normal = sampler.normalAt(at);
+  const x = point.x + normal.x * offset;
+  const y = point.y + normal.y * offset;
+
+  let transform = `translate(${x} ${y})`;
+  if (rotate) {
+    const tangent = sampler.tangentAt(at);
+    const angle = Math.atan2(tangent.y, tangent.x) * (180 / Math.PI);
+    transform += ` rotate(${angle + rotationOffset})`;
+  }
+
+  return (
+    <g
+      id={id}
+      className={className}
+      transform={transform}
+      data-path-marker={at}
+      data-active={markerState.active}
+      data-passed={markerState.passed}
+    >
+      {typeof children === "function" ? children(markerState) : children}
+    </g>
+  );
+}
@@ -2,6 +2,17 @@
  * Path segment definitions and event system
  */
 
+import { EasingName, EasingFunction, applyEasing } from "./easing";
+import { getPathSampler } from "./pathCache";
+import {
+  ExtremaOptions,
+  SharpTurnOptions,
+  getCommandBreaks,
+  getExtrema,
+  getSharpTurns,
+  getSubpathBreaks,
+} from "./pathGeometry";
+
 export interface PathSegment {
   /** Unique identifier for this segment */
   id: string;
@@ -13,6 +24,14 @@ export interface PathSegment {
   label?: string;
   /** Custom data to pass to callbacks */
   data?: Record<string, unknown>;
+  /** Easing applied to path progress within this segment */
+  easing?: EasingName | EasingFunction;
+  /** Scroll distance multiplier: 2 = twice the scroll to cross, 0.5 = half */
+  weight?: number;
+  /** Fixed share of the total scroll distance (0-1), overrides weight */
+  duration?: number;
+  /** Nested segments, with start and end relative to this one (0-1) */
+  children?: PathSegment[];
 }
 
 export type SegmentEventType = "enter" | "exit" | "progress";
@@ -26,38 +45,108 @@ export interface SegmentEvent {
   pathProgress: number;
   /** Direction of travel: 1 for forward, -1 for backward */
   direction: 1 | -1;
+  /** The segment was passed over in a single update; enter and exit arrive together */
+  skipped: boolean;
+  /** Segments from the outermost ancestor down to `segment` */
+  path: PathSegment[];
 }
 
 export type SegmentEventCallback = (event: SegmentEvent) => void;
 
+export interface SegmentState {
+  /** Progress is inside the segment */
+  active: boolean;
+  /** Progress within the segment (0-1) */
+  progress: number;
+  /** Direction of travel: 1 for forward, -1 for backward */
+  direction: 1 | -1;
+}
+
+/**
+ * How progress exactly on a segment boundary counts:
+ * - "half-open": inside at the start, outside at the end, so touching
+ *   segments hand over without overlap. A segment ending at 1 stays active
+ *   at the end of the path.
+ * - "inclusive": inside at both boundaries
+ * - "exclusive": outside at both boundaries
+ */
+export type SegmentBoundaryMode = "half-open" | "inclusive" | "exclusive";
+
+export interface SegmentTrackerOptions {
+  /** Default: "half-open" */
+  boundaries?: SegmentBoundaryMode;
+}
+
 /**
- * Manages path segment tracking and event emission
+ * Manages path segment tracking and event emission.
+ *
+ * Each update emits exits first, then enter/exit pairs for segments passed
+ * over, then enters, each in the order they are crossed along the direction
+ * of travel. Progress events follow in segment order. Nested segments enter
+ * after and exit before their parents, and their events bubble up to the
+ * parents' subscribers.
  */
 export class SegmentTracker {
+  /** Nested segments flattened to absolute ranges, parents first */
   private segments: PathSegment[] = [];
+  private parents: Map<string, string> = new Map();
   private activeSegments: Set<string> = new Set();
   private callbacks: Map<string, SegmentEventCallback[]> = new Map();
-  private lastProgress: number = 0;
+  private allCallbacks: SegmentEventCallback[] = [];
+  private lastProgress: number | null = null;
+  private lastDirection: 1 | -1 = 1;
+  private boundaries: SegmentBoundaryMode;
+
+  constructor(
+    segments: PathSegment[] = [],
+    options: SegmentTrackerOptions = {},
+  ) {
+    segments.forEach((segment) => this.segments.push(...this.flatten(segment)));
+    this.boundaries = options.boundaries ?? "half-open";
+  }
 
-  constructor(segments: PathSegment[] = []) {
-    this.segments = segments;
+  /**
+   * Change how boundaries count, applied from the next update
+   */
+  setOptions(options: SegmentTrackerOptions): void {
+    this.boundaries = options.boundaries ?? "half-open";
   }
 
   /**
-   * Add a new segment to track
+   * Add a new segment to track, replacing one with the same id along with
+   * its children. Existing subscribers to the id are kept.
    */
   addSegment(segment: PathSegment): void {
-    this.segments.push(segment);
-    this.callbacks.set(segment.id, []);
+    const index = this.segments.findIndex((s) => s.id === segment.id);
+    const count = index === -1 ? 0 : this.countSubtree(index);
+    const flattened = this.flatten(segment, this.parents.get(segment.id));
+    if (index === -1) {
+      this.segments.push(...flattened);
+    } else {
+      const kept = new Set(flattened.map((s) => s.id));
+      this.exitRemoved(
+        this.segments
+          .slice(index, index + count)
+          .filter((s) => !kept.has(s.id)),
+      );
+      this.segments.splice(index, count, ...flattened);
+    }
+    flattened.forEach((s) => {
+      if (!this.callbacks.has(s.id)) this.callbacks.set(s.id, []);
+    });
   }
 
   /**
-   * Remove a segment
+   * Remove a segment and its children, emitting exits for active ones.
+   * Subscribers stay attached to the id, so a segment registered again
+   * reaches them.
    */
   removeSegment(id: string): void {
-    this.segments = this.segments.filter((s) => s.id !== id);
-    this.callbacks.delete(id);
-    this.activeSegments.delete(id);
+    const index = this.segments.findIndex((s) => s.id === id);
+    if (index === -1) return;
+    const count = this.countSubtree(index);
+    this.exitRemoved(this.segments.slice(index, index + count));
+    this.segments.splice(index, count);
   }
 
   /**
@@ -79,63 +168,146 @@ export class SegmentTracker {
   }
 
   /**
-   * Subscribe to all segment events
+   * Subscribe to events for all segments, including ones added later
    */
   subscribeAll(callback: SegmentEventCallback): () => void {
-    const unsubscribes: (() => void)[] = [];
-    for (const segment of this.segments) {
-      unsubscribes.push(this.subscribe(segment.id, callback));
+    this.allCallbacks.push(callback);
+    return () => {
+      this.allCallbacks = this.allCallbacks.filter((cb) => cb !== callback);
+    };
+  }
+
+  /**
+   * Whether progress lies inside a segment under the boundary mode
+   */
+  contains(segment: PathSegment, progress: number): boolean {
+    const { start, end } = segment;
+    switch (this.boundaries) {
+      case "inclusive":
+        return progress >= start && progress <= end;
+      case "exclusive":
+        return progress > start && progress < end;
+      default:
+        return (
+          progress >= start && (progress < end || (end >= 1 && progress >= end))
+        );
+    }
+  }
+
+  /**
+   * Segments from the outermost ancestor down to the given one
+   */
+  getSegmentPath(segmentId: string): PathSegment[] {
+    const path: PathSegment[] = [];
+    let id: string | undefined = segmentId;
+    while (id !== undefined) {
+      const segment = this.segments.find((s) => s.id === id);
+      if (!segment) break;
+      path.unshift(segment);
+      id = this.parents.get(id);
     }
-    return () => unsubscribes.forEach((unsub) => unsub());
+    return path;
   }
 
   /**
    * Update with new progress and emit events
    */
   update(progress: number): void {
-    const direction: 1 | -1 = progress >= this.lastProgress ? 1 : -1;
+    const last = this.lastProgress;
+    const direction: 1 | -1 = progress >= (last ?? 0) ? 1 : -1;
+    const low = Math.min(last ?? progress, progress);
+    const high = Math.max(last ?? progress, progress);
+
+    const exits: PathSegment[] = [];
+    const passes: PathSegment[] = [];
+    const enters: PathSegment[] = [];
+    const stays: PathSegment[] = [];
 
     for (const segment of this.segments) {
       const wasActive = this.activeSegments.has(segment.id);
-      const isActive = progress >= segment.start && progress <= segment.end;
+      const isActive = this.contains(segment, progress);
 
-      if (isActive && !wasActive) {
-        // Entered segment
-        this.activeSegments.add(segment.id);
-        this.emit(segment.id, {
-          type: "enter",
-          segment,
-          segmentProgress: this.calcSegmentProgress(progress, segment),
-          pathProgress: progress,
-          direction,
-        });
-      } else if (!isActive && wasActive) {
-        // Exited segment
-        this.activeSegments.delete(segment.id);
-        this.emit(segment.id, {
-          type: "exit",
-          segment,
-          segmentProgress: direction === 1 ? 1 : 0,
-          pathProgress: progress,
-          direction,
-        });
-      } else if (isActive) {
-        // Progress within segment
-        this.emit(segment.id, {
-          type: "progress",
-          segment,
-          segmentProgress: this.calcSegmentProgress(progress, segment),
-          pathProgress: progress,
-          direction,
-        });
+      if (isActive && !wasActive) enters.push(segment);
+      else if (!isActive && wasActive) exits.push(segment);
+      else if (isActive) stays.push(segment);
+      else if (last !== null && segment.start < high && segment.end > low) {
+        // Crossed between two updates without ever being active
+        passes.push(segment);
       }
     }
 
+    const crossingOrder = this.byCrossing(direction);
+    // Children exit before and enter after their parents
+    const deepestFirst = (a: PathSegment, b: PathSegment) =>
+      this.getDepth(b.id) - this.getDepth(a.id) || crossingOrder(a, b);
+    const shallowestFirst = (a: PathSegment, b: PathSegment) =>
+      this.getDepth(a.id) - this.getDepth(b.id) || crossingOrder(a, b);
+
+    // Passed children are crossed inside their parent's enter and exit
+    const [from, to] = direction === 1 ? [0, 1] : [1, 0];
+    const passChildren = (parent: PathSegment) =>
+      passes
+        .filter((s) => this.parents.get(s.id) === parent.id)
+        .sort(crossingOrder)
+        .forEach(pass);
+    const pass = (segment: PathSegment) => {
+      this.emit(segment, "enter", from, progress, direction, true);
+      passChildren(segment);
+      this.emit(segment, "exit", to, progress, direction, true);
+    };
+    const crossedParents = new Set(
+      [...exits, ...passes, ...enters].map((s) => s.id),
+    );
+
+    for (const segment of exits.sort(deepestFirst)) {
+      passChildren(segment);
+      this.activeSegments.delete(segment.id);
+      this.emit(segment, "exit", direction === 1 ? 1 : 0, progress, direction);
+    }
+
+    passes
+      .filter((s) => !crossedParents.has(this.parents.get(s.id) ?? ""))
+      .sort(crossingOrder)
+      .forEach(pass);
+
+    for (const segment of enters.sort(shallowestFirst)) {
+      this.activeSegments.add(segment.id);
+      this.emit(
+        segment,
+        "enter",
+        this.calcSegmentProgress(progress, segment),
+        progress,
+        direction,
+      );
+      passChildren(segment);
+    }
+
+    for (const segment of stays.sort(
+      (a, b) =>
+        this.getDepth(a.id) - this.getDepth(b.id) || this.byCrossing(1)(a, b),
+    )) {
+      this.emit(
+        segment,
+        "progress",
+        this.calcSegmentProgress(progress, segment),
+        progress,
+        direction,
+      );
+    }
+
     this.lastProgress = progress;
+    this.lastDirection = direction;
+  }
+
+  /**
+   * Get all tracked segments
+   */
+  getSegments(): PathSegment[] {
+    return this.segments;
   }
 
   /**
-   * Get all currently active segments
+   * Get all currently active segments, parents before their children
    */
   getActiveSegments(): PathSegment[] {
     return this.segments.filter((s) => this.activeSegments.has(s.id));
@@ -148,20 +320,400 @@ export class SegmentTracker {
     return this.activeSegments.has(segmentId);
   }
 
+  /**
+   * State of a segment as of the last update. Unknown segments are inactive.
+   */
+  getSegmentState(segmentId: string): SegmentState {
+    const segment = this.segments.find((s) => s.id === segmentId);
+    return {
+      active: this.activeSegments.has(segmentId),
+      progress: segment
+        ? this.calcSegmentProgress(this.lastProgress ?? 0, segment)
+        : 0,
+      direction: this.lastDirection,
+    };
+  }
+
+  /**
+   * Expand a segment and its children into absolute ranges, parents first
+   */
+  private flatten(segment: PathSegment, parentId?: string): PathSegment[] {
+    const parent =
+      parentId !== undefined
+        ? this.segments.find((s) => s.id === parentId)
+        : undefined;
+    return this.flattenWithin(segment, parent);
+  }
+
+  private flattenWithin(
+    segment: PathSegment,
+    parent: PathSegment | undefined,
+  ): PathSegment[] {
+    let absolute = segment;
+    if (parent) {
+      const span = parent.end - parent.start;
+      absolute = {
+        ...segment,
+        start: parent.start + segment.start * span,
+        end: parent.start + segment.end * span,
+      };
+      this.parents.set(segment.id, parent.id);
+    } else {
+      this.parents.delete(segment.id);
+    }
+    return [
+      absolute,
+      ...(segment.children ?? []).flatMap((child) =>
+        this.flattenWithin(child, absolute),
+      ),
+    ];
+  }
+
+  /**
+   * Number of entries a segment and its descendants take from `index` on
+   */
+  private countSubtree(index: number): number {
+    const depth = this.getDepth(this.segments[index].id);
+    let end = index + 1;
+    while (
+      end < this.segments.length &&
+      this.getDepth(this.segments[end].id) > depth
+    ) {
+      end++;
+    }
+    return end - index;
+  }
+
+  private getDepth(segmentId: string): number {
+    let depth = 0;
+    let id = this.parents.get(segmentId);
+    while (id !== undefined) {
+      depth++;
+      id = this.parents.get(id);
+    }
+    return depth;
+  }
+
+  /**
+   * Exit removed segments that were active, children first
+   */
+  private exitRemoved(removed: PathSegment[]): void {
+    const progress = this.lastProgress ?? 0;
+    for (const segment of [...removed].reverse()) {
+      if (this.activeSegments.delete(segment.id)) {
+        this.emit(
+          segment,
+          "exit",
+          this.calcSegmentProgress(progress, segment),
+          progress,
+          this.lastDirection,
+        );
+      }
+    }
+  }
+
+  /**
+   * Order segments as travel reaches them: by start going forward, by end
+   * going back, then by the other edge and finally by insertion order
+   */
+  private byCrossing(direction: 1 | -1) {
+    const index = (segment: PathSegment) => this.segments.indexOf(segment);
+    return (a: PathSegment, b: PathSegment) =>
+      direction === 1
+        ? a.start - b.start || a.end - b.end || index(a) - index(b)
+        : b.end - a.end || b.start - a.start || index(a) - index(b);
+  }
+
   private calcSegmentProgress(progress: number, segment: PathSegment): number {
     const range = segment.end - segment.start;
     if (range === 0) return 0;
     return Math.max(0, Math.min(1, (progress - segment.start) / range));
   }
 
-  private emit(segmentId: string, event: SegmentEvent): void {
-    const callbacks = this.callbacks.get(segmentId) || [];
-    callbacks.forEach((cb) => cb(event));
+  private emit(
+    segment: PathSegment,
+    type: SegmentEventType,
+    segmentProgress: number,
+    pathProgress: number,
+    direction: 1 | -1,
+    skipped = false,
+  ): void {
+    const path = this.getSegmentPath(segment.id);
+    const event: SegmentEvent = {
+      type,
+      segment,
+      segmentProgress,
+      pathProgress,
+      direction,
+      skipped,
+      path: path.length > 0 ? path : [segment],
+    };
+    // Bubble from the segment up through its ancestors
+    for (let i = event.path.length - 1; i >= 0; i--) {
+      const callbacks = this.callbacks.get(event.path[i].id) || [];
+      callbacks.forEach((cb) => cb(event));
+    }
+    this.allCallbacks.forEach((cb) => cb(event));
+  }
+}
+
+/** Samples in the lookup table that replaces a non-monotonic easing */
+const MONOTONIC_SAMPLES = 256;
+
+/**
+ * An easing that stays within 0-1 and never moves back, so remaps built
+ * from it can be inverted. Overshooting easings are clamped and flattened
+ * where they turn back.
+ */
+function toMonotonicEasing(
+  easing: EasingName | EasingFunction,
+): EasingFunction {
+  const samples = Array.from({ length: MONOTONIC_SAMPLES + 1 }, (_, i) =>
+    applyEasing(i / MONOTONIC_SAMPLES, easing),
+  );
+  const monotonic = samples.every(
+    (value, i) =>
+      value >= 0 && value <= 1 && (i === 0 || value >= samples[i - 1]),
+  );
+  if (monotonic) return (t) => applyEasing(t, easing);
+
+  let max = 0;
+  const table = samples.map((value, i) => {
+    if (i === 0) return 0;
+    if (i === MONOTONIC_SAMPLES) return 1;
+    max = Math.max(max, Math.min(1, value));
+    return max;
+  });
+  return (t) => {
+    const x = Math.max(0, Math.min(1, t)) * MONOTONIC_SAMPLES;
+    const i = Math.min(MONOTONIC_SAMPLES - 1, Math.floor(x));
+    return table[i] + (table[i + 1] - table[i]) * (x - i);
+  };
+}
+
+/**
+ * Build a piecewise function mapping scroll progress to path progress.
+ * Segments with `duration` take that fixed share of the scroll distance.
+ * The rest is split across other segments and the gaps between them by
+ * length times `weight`. Segment `easing` shapes movement within them.
+ * Segments inside another one, like the tracker's flattened nested
+ * segments, remap within its span; partial overlaps are ignored.
+ */
+export function createProgressRemap(
+  segments: PathSegment[],
+): (progress: number) => number {
+  const identity = (progress: number) => progress;
+  const remapped = segments.some(
+    (s) =>
+      s.easing !== undefined ||
+      s.weight !== undefined ||
+      s.duration !== undefined,
+  );
+  if (!remapped) return identity;
+
+  // Parents before their children
+  const sorted = [...segments]
+    .map((s) => ({
+      ...s,
+      start: Math.max(0, Math.min(1, s.start)),
+      end: Math.max(0, Math.min(1, s.end)),
+    }))
+    .filter((s) => s.end > s.start)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Cover 0-1 with pieces, filling gaps with plain linear pieces
+  const pieces: {
+    start: number;
+    end: number;
+    span: number;
+    duration?: number;
+    easing?: EasingName | EasingFunction;
+    nested: PathSegment[];
+  }[] = [];
+  let cursor = 0;
+  for (const segment of sorted) {
+    const last = pieces[pieces.length - 1];
+    if (segment.start < cursor) {
+      if (last && segment.end <= last.end) last.nested.push(segment);
+      continue;
+    }
+    if (segment.start > cursor) {
+      pieces.push({
+        start: cursor,
+        end: segment.start,
+        span: segment.start - cursor,
+        nested: [],
+      });
+    }
+    pieces.push({
+      start: segment.start,
+      end: segment.end,
+      span: (segment.end - segment.start) * (segment.weight ?? 1),
+      duration:
+        segment.duration === undefined
+          ? undefined
+          : Math.max(0, segment.duration),
+      easing: segment.easing,
+      nested: [],
+    });
+    cursor = segment.end;
+  }
+  if (cursor < 1) {
+    pieces.push({ start: cursor, end: 1, span: 1 - cursor, nested: [] });
+  }
+
+  // Durations are fixed shares; weighted spans split what they leave
+  const fixed = pieces.reduce((sum, piece) => sum + (piece.duration ?? 0), 0);
+  const flexible = pieces.reduce(
+    (sum, piece) =>
+      piece.duration === undefined ? sum + Math.max(0, piece.span) : sum,
+    0,
+  );
+  const free = flexible > 0 ? Math.max(0, 1 - fixed) : 0;
+  // Durations fill the scroll when nothing else can, or exceed it together
+  const fixedScale = fixed > 0 && (fixed > 1 || free === 0) ? 1 / fixed : 1;
+  if (fixed <= 0 && flexible <= 0) return identity;
+
+  let scrollCursor = 0;
+  const mapped = pieces.map((piece) => {
+    const scrollStart = scrollCursor;
+    scrollCursor +=
+      piece.duration !== undefined
+        ? piece.duration * fixedScale
+        : (free * Math.max(0, piece.span)) / flexible;
+    const length = piece.end - piece.start;
+    return {
+      start: piece.start,
+      length,
+      scrollStart,
+      scrollEnd: scrollCursor,
+      ease: piece.easing ? toMonotonicEasing(piece.easing) : identity,
+      // Nested segments share out the piece's scroll, relative to it
+      inner: createProgressRemap(
+        piece.nested.map((s) => ({
+          ...s,
+          start: (s.start - piece.start) / length,
+          end: (s.end - piece.start) / length,
+        })),
+      ),
+    };
+  });
+
+  return (progress: number) => {
+    const p = Math.max(0, Math.min(1, progress));
+    const piece =
+      mapped.find((m) => p <= m.scrollEnd && m.scrollEnd > m.scrollStart) ??
+      mapped[mapped.length - 1];
+    const scrollSpan = piece.scrollEnd - piece.scrollStart;
+    const local = scrollSpan > 0 ? (p - piece.scrollStart) / scrollSpan : 1;
+    return piece.start + piece.inner(piece.ease(local)) * piece.length;
+  };
+}
+
+export type SnapPointSource = "starts" | "ends" | "centers" | number[];
+
+/**
+ * Collect sorted, de-duplicated snap points from segments or explicit values
+ */
+export function getSegmentSnapPoints(
+  segments: PathSegment[],
+  source: SnapPointSource = "starts",
+): number[] {
+  const points = Array.isArray(source)
+    ? source
+    : segments.map((s) =>
+        source === "starts"
+          ? s.start
+          : source === "ends"
+            ? s.end
+            : (s.start + s.end) / 2,
+      );
+  return Array.from(
+    new Set(points.map((p) => Math.max(0, Math.min(1, p)))),
+  ).sort((a, b) => a - b);
+}
+
+/**
+ * Find the scroll progress that a progress remap turns into `pathProgress`.
+ * Remaps are monotonic (easings that turn back are flattened), so a
+ * bisection converges.
+ */
+export function invertProgressRemap(
+  remap: (progress: number) => number,
+  pathProgress: number,
+): number {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 32; i++) {
+    const mid = (low + high) / 2;
+    if (remap(mid) < pathProgress) low = mid;
+    else high = mid;
   }
+  return (low + high) / 2;
 }
 
 /**
- * Create common segment presets
+ * Equal divisions for each level of `counts`, numbered from `label`
+ */
+function createNestedSegments(
+  counts: number[],
+  prefix: string,
+  label: string,
+): PathSegment[] {
+  const [count, ...rest] = counts;
+  if (!count || count < 1) return [];
+  return Array.from({ length: count }, (_, i) => {
+    const segment: PathSegment = {
+      id: `${prefix}-${i}`,
+      start: i / count,
+      end: (i + 1) / count,
+      label: `${label}${i + 1}`,
+    };
+    if (rest.length > 0) {
+      segment.children = createNestedSegments(
+        rest,
+        segment.id,
+        `${segment.label}.`,
+      );
+    }
+    return segment;
+  });
+}
+
+export interface WaypointOptions {
+  /** Window width around each point, in progress or as a length along `path`. Default: 0.1 */
+  width?: number | { length: number };
+  /** Path that length widths are measured on */
+  path?: string | SVGPathElement;
+}
+
+/**
+ * Consecutive segments between split points (progress, sorted)
+ */
+function createSplitSegments(breaks: number[], prefix: string): PathSegment[] {
+  const bounds = [0, ...breaks, 1];
+  return bounds.slice(1).map((end, i) => ({
+    id: `${prefix}-${i}`,
+    start: bounds[i],
+    end,
+    label: `${prefix} ${i + 1}`,
+  }));
+}
+
+/**
+ * Half the waypoint window in progress
+ */
+function getWaypointRadius({ width = 0.1, path }: WaypointOptions): number {
+  if (typeof width === "number") return width / 2;
+  if (!path) return 0;
+  const { length } = getPathSampler(path);
+  return length > 0 ? width.length / length / 2 : 0;
+}
+
+/**
+ * Create common segment presets.
+ * Presets built from path geometry give positions along the path, which
+ * match path progress with the default linear easing.
  */
 export const createSegmentPresets = {
   /** Divide path into equal segments */
@@ -173,12 +725,51 @@ export const createSegmentPresets = {
       label: `${prefix} ${i + 1}`,
     })),
 
+  /**
+   * Nested equal divisions, one level per count: `[3, 4]` gives three
+   * segments of four children each, with ids like "segment-0-2"
+   */
+  nested: (counts: number[], prefix = "segment"): PathSegment[] =>
+    createNestedSegments(counts, prefix, `${prefix} `),
+
   /** Create segments at specific progress points */
-  waypoints: (points: number[], prefix = "waypoint"): PathSegment[] =>
-    points.map((point, i) => ({
+  waypoints: (
+    points: number[],
+    prefix = "waypoint",
+    options: WaypointOptions = {},
+  ): PathSegment[] => {
+    const radius = getWaypointRadius(options);
+    return points.map((point, i) => ({
       id: `${prefix}-${i}`,
-      start: Math.max(0, point - 0.05),
-      end: Math.min(1, point + 0.05),
+      start: Math.max(0, point - radius),
+      end: Math.min(1, point + radius),
       label: `${prefix} ${i + 1}`,
-    })),
+    }));
+  },
+
+  /** One segment per subpath (each moveto starts a new one) */
+  subpaths: (
+    path: string | SVGPathElement,
+    prefix = "subpath",
+  ): PathSegment[] => createSplitSegments(getSubpathBreaks(path), prefix),
+
+  /** One segment per line, curve or arc command */
+  commands: (
+    path: string | SVGPathElement,
+    prefix = "command",
+  ): PathSegment[] => createSplitSegments(getCommandBreaks(path), prefix),
+
+  /** Split the path at turns sharper than `options.curvature` */
+  sharpTurns: (
+    path: string | SVGPathElement,
+    options: SharpTurnOptions = {},
+    prefix = "turn",
+  ): PathSegment[] => createSplitSegments(getSharpTurns(path, options), prefix),
+
+  /** Split the path where it turns back along x or y */
+  extrema: (
+    path: string | SVGPathElement,
+    options: ExtremaOptions = {},
+    prefix = "extremum",
+  ): PathSegment[] => createSplitSegments(getExtrema(path, options), prefix),
 };
@@ -1,5 +1,233 @@
-import React, { useEffect, useRef, useState } from "react";
-import { usePathFollower } from "./PathFollowerContext";
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { usePathFollowerRef } from "./PathFollowerContext";
+import {
+  DEFAULT_TRACK_ID,
+  PathFollowerState,
+  PathTrackState,
+} from "./pathFollowerTypes";
+import { PathSegment } from "./PathSegment";
+import { getPathSampler } from "./pathCache";
+import { getPointOnPath, getPathTangent } from "./utils";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
+import { useReducedMotion } from "./useReducedMotion";
+import {
+  CameraBounds,
+  CameraConfig,
+  CameraFrame,
+  CameraMode,
+  CameraState,
+  resolveCameraConfig,
+  getCameraFrame,
+  getCameraStateFrame,
+  stepCamera,
+  isCameraSettled,
+} from "./camera";
+import {
+  RevealConfig,
+  RevealStroke,
+  resolveRevealConfig,
+  getRevealStrokes,
+  getAheadStroke,
+} from "./reveal";
+
+interface ScrollingPathContextValue {
+  /** SVG path data of the enclosing ScrollingPath */
+  path: string;
+  /** Track id of the enclosing ScrollingPath */
+  track: string;
+}
+
+const ScrollingPathContext = createContext<ScrollingPathContextValue | null>(
+  null,
+);
+
+/**
+ * Hook that returns the geometry of the enclosing ScrollingPath
+ */
+export function useScrollingPath(): ScrollingPathContextValue {
+  const context = useContext(ScrollingPathContext);
+  if (!context) {
+    throw new Error("useScrollingPath must be used within a ScrollingPath");
+  }
+  return context;
+}
+
+/** Points sampled to measure a segment's bounds */
+const SEGMENT_BOUNDS_SAMPLES = 32;
+
+/**
+ * Innermost of the active segments. Parents come first, so a later segment
+ * inside the current pick is nested deeper.
+ */
+function getDeepestSegment(segments: PathSegment[]): PathSegment | undefined {
+  return segments.reduce<PathSegment | undefined>(
+    (deepest, segment) =>
+      !deepest || (segment.start >= deepest.start && segment.end <= deepest.end)
+        ? segment
+        : deepest,
+    undefined,
+  );
+}
+
+/**
+ * Bounding box of the path the follower covers between a segment's start
+ * and end, sampled through the provider's easing
+ */
+function getSegmentBounds(
+  path: string,
+  segment: PathSegment | undefined,
+  ease: (pathProgress: number) => number,
+): CameraBounds | null {
+  if (!segment) return null;
+  const sampler = getPathSampler(path);
+  const bounds = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  };
+  for (let i = 0; i <= SEGMENT_BOUNDS_SAMPLES; i++) {
+    const t = ease(
+      segment.start +
+        ((segment.end - segment.start) * i) / SEGMENT_BOUNDS_SAMPLES,
+    );
+    const { x, y } = sampler.pointAt(t);
+    bounds.minX = Math.min(bounds.minX, x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxX = Math.max(bounds.maxX, x);
+    bounds.maxY = Math.max(bounds.maxY, y);
+  }
+  return bounds;
+}
+
+/** Write reveal mask dash settings without a re-render */
+function applyRevealStroke(
+  element: SVGPathElement | null,
+  stroke: RevealStroke,
+): void {
+  if (!element) return;
+  element.setAttribute("stroke-dasharray", stroke.strokeDasharray);
+  element.setAttribute("stroke-dashoffset", String(stroke.strokeDashoffset));
+  element.setAttribute("opacity", String(stroke.opacity));
+}
+
+const formatViewBox = ({ x, y, width, height }: CameraFrame) =>
+  `${x} ${y} ${width} ${height}`;
+
+/**
+ * Map a viewBox point to screen pixels without the DOM, matching the
+ * full-viewport svg with `preserveAspectRatio="xMidYMid slice"`
+ */
+function projectToScreen(
+  point: { x: number; y: number },
+  frame: CameraFrame,
+  viewport: { width: number; height: number },
+): { x: number; y: number } {
+  const scale = Math.max(
+    viewport.width / frame.width,
+    viewport.height / frame.height,
+  );
+  return {
+    x: (viewport.width - frame.width * scale) / 2 + (point.x - frame.x) * scale,
+    y:
+      (viewport.height - frame.height * scale) / 2 +
+      (point.y - frame.y) * scale,
+  };
+}
+
+/**
+ * Static track measurement for a camera frame, used before the provider can
+ * measure the mounted path
+ */
+function getStaticTrackMeasure(
+  path: string,
+  frame: CameraFrame,
+  viewport: { width: number; height: number },
+): (easedProgress: number) => PathTrackState {
+  return (easedProgress) => {
+    const position = getPointOnPath(path, easedProgress);
+    return {
+      position,
+      screenPosition: projectToScreen(position, frame, viewport),
+      angle: getPathTangent(path, easedProgress),
+    };
+  };
+}
+
+export interface GradientStop {
+  /** Position along the gradient (0-1) */
+  offset: number;
+  color: string;
+  opacity?: number;
+}
+
+export interface PathGradient {
+  /** Colors spread evenly, or explicit stops */
+  stops: (string | GradientStop)[];
+  /**
+   * "vertical", "horizontal" or an angle in degrees
+   * (0 = left to right, 90 = top to bottom). Default: "vertical"
+   */
+  direction?: "vertical" | "horizontal" | number;
+}
+
+export interface GlowFilterConfig {
+  /** Blur radius (stdDeviation). Default: 3 */
+  blur?: number;
+  /** Glow color. Default: `glowColor`, then the stroke */
+  color?: string;
+  /** Glow opacity. Default: 0.15 */
+  opacity?: number;
+}
+
+/** Per-instance def ids, scoped with useId so instances never collide */
+export interface ScrollingPathDefIds {
+  /** Prefix for scoping custom def ids, e.g. `${prefix}-pattern` */
+  prefix: string;
+  gradient: string;
+  glow: string;
+}
+
+const DEFAULT_GRADIENT: PathGradient = {
+  stops: [
+    { offset: 0, color: "#ffb81c" },
+    { offset: 0.3, color: "#c45c26" },
+    { offset: 0.6, color: "#860038" },
+    { offset: 1, color: "#5b7b8c" },
+  ],
+};
+
+function getGradientStops(stops: PathGradient["stops"]): GradientStop[] {
+  return stops.map((stop, i) =>
+    typeof stop === "string"
+      ? { offset: stops.length > 1 ? i / (stops.length - 1) : 0, color: stop }
+      : stop,
+  );
+}
+
+/** Gradient vector across the bounding box for a direction */
+function getGradientVector(direction: PathGradient["direction"] = "vertical") {
+  const angle =
+    direction === "vertical" ? 90 : direction === "horizontal" ? 0 : direction;
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.round(Math.cos(radians) * 50 * 1000) / 1000;
+  const dy = Math.round(Math.sin(radians) * 50 * 1000) / 1000;
+  return {
+    x1: `${50 - dx}%`,
+    y1: `${50 - dy}%`,
+    x2: `${50 + dx}%`,
+    y2: `${50 + dy}%`,
+  };
+}
 
 interface ScrollingPathProps {
   /** SVG path data string */
@@ -10,14 +238,24 @@ interface ScrollingPathProps {
   topOffset?: string;
   /** ViewBox dimensions [width, height] */
   viewBox?: [number, number];
-  /** Path stroke color or gradient ID */
-  stroke?: string;
+  /**
+   * Path stroke color or paint server. Pass a function to reference scoped
+   * def ids, e.g. `(ids) => \`url(#${ids.prefix}-pattern)\``.
+   * Default: the built-in gradient
+   */
+  stroke?: string | ((ids: ScrollingPathDefIds) => string);
+  /** Stops and direction for the built-in gradient */
+  gradient?: PathGradient;
   /** Path stroke width */
   strokeWidth?: number;
   /** Whether to show a glow effect */
   glow?: boolean;
   /** Glow color */
   glowColor?: string;
+  /** Blur radius, color and opacity of the glow */
+  glowFilter?: GlowFilterConfig;
+  /** Render custom `<defs>` content that can reference the scoped ids */
+  renderDefs?: (ids: ScrollingPathDefIds) => React.ReactNode;
   /** Path opacity */
   opacity?: number;
   /** Dash array for dashed lines */
@@ -26,6 +264,23 @@ interface ScrollingPathProps {
   className?: string;
   /** Children to render inside the SVG (e.g., markers, decorations) */
   children?: React.ReactNode;
+  /** Track id for pages with several paths (defaults to "default") */
+  track?: string;
+  /**
+   * Render a spacer of `height` and use its scroll range for progress,
+   * so the path runs only while this section scrolls by
+   */
+  defineScrollRange?: boolean;
+  /**
+   * How the viewBox follows along: a mode, or a config with zoom,
+   * dead zone and smoothing. Default: "follow-progress"
+   */
+  camera?: CameraMode | CameraConfig;
+  /**
+   * Draw the path as the follower advances, optionally with a trailing
+   * fade and styling for the undrawn part ahead
+   */
+  reveal?: boolean | RevealConfig;
 }
 
 export function ScrollingPath({
@@ -33,22 +288,38 @@ export function ScrollingPath({
   height,
   topOffset = "0",
   viewBox = [400, 2000],
-  stroke = "url(#pathGradient)",
+  stroke: strokeProp,
+  gradient = DEFAULT_GRADIENT,
   strokeWidth = 3,
   glow = true,
   glowColor,
+  glowFilter = {},
+  renderDefs,
   opacity = 0.6,
   strokeDasharray = "15 8",
   className = "",
   children,
+  track = DEFAULT_TRACK_ID,
+  defineScrollRange = false,
+  camera,
+  reveal,
 }: ScrollingPathProps) {
   const pathRef = useRef<SVGPathElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
-  const { registerPath, unregisterPath, scrollProgress } = usePathFollower();
-  const [viewportSize, setViewportSize] = useState({
-    width: typeof window !== "undefined" ? window.innerWidth : 1920,
-    height: typeof window !== "undefined" ? window.innerHeight : 1080,
-  });
+  const rangeRef = useRef<HTMLDivElement>(null);
+  const {
+    registerPath,
+    unregisterPath,
+    registerScrollRange,
+    unregisterScrollRange,
+    primeTrack,
+    subscribe,
+    getState,
+    getActiveSegments,
+    getEasedProgress,
+  } = usePathFollowerRef();
+  // Starts at the provider's initialViewport so the server render matches
+  const [viewportSize, setViewportSize] = useState(() => getState().viewport);
   const [isMounted, setIsMounted] = useState(false);
 
   useEffect(() => {
@@ -65,27 +336,172 @@ export function ScrollingPath({
   // Register path after SVG is rendered and mounted
   useEffect(() => {
     if (isMounted && pathRef.current && svgRef.current) {
-      registerPath(pathRef.current, svgRef.current, viewBox[1]);
+      registerPath(pathRef.current, svgRef.current, viewBox[1], track);
     }
-    return () => unregisterPath();
-  }, [isMounted, registerPath, unregisterPath, viewBox]);
-
-  // Calculate dynamic viewBox with responsive scaling
-  const viewBoxHeight = viewBox[1];
-  const windowHeight = 400; // Show ~400 units at a time
-  const viewBoxY = Math.max(
-    0,
-    Math.min(
-      viewBoxHeight - windowHeight,
-      scrollProgress * viewBoxHeight - windowHeight / 2,
-    ),
+    return () => unregisterPath(track);
+  }, [isMounted, registerPath, unregisterPath, viewBox, track]);
+
+  // Map progress to the spacer's scroll range
+  useEffect(() => {
+    if (!defineScrollRange) return;
+    registerScrollRange({
+      start: { target: rangeRef, edge: "top top" },
+      end: { target: rangeRef, edge: "bottom bottom" },
+    });
+    return () => unregisterScrollRange();
+  }, [defineScrollRange, registerScrollRange, unregisterScrollRange]);
+
+  const reducedMotion = useReducedMotion();
+  // Read by the camera subscription so inline configs don't resubscribe
+  const cameraRef = useRef({
+    config: resolveCameraConfig(camera),
+    viewBox,
+    viewport: viewportSize,
+    path,
+    reducedMotion,
+  });
+  cameraRef.current = {
+    config: resolveCameraConfig(camera),
+    viewBox,
+    viewport: viewportSize,
+    path,
+    reducedMotion,
+  };
+  const cameraStateRef = useRef<CameraState | null>(null);
+
+  const getCameraTarget = useCallback(
+    (state: PathFollowerState) => {
+      const { config, viewBox, viewport, path } = cameraRef.current;
+      return getCameraFrame(config, {
+        viewBox,
+        viewport,
+        scrollProgress: state.scrollProgress,
+        point: getPointOnPath(path, state.easedProgress),
+        segmentBounds:
+          config.mode === "fit-segment"
+            ? getSegmentBounds(
+                path,
+                getDeepestSegment(getActiveSegments()),
+                getEasedProgress,
+              )
+            : null,
+      });
+    },
+    [getActiveSegments, getEasedProgress],
   );
 
-  // Scale viewBox width based on viewport aspect ratio
-  const aspectRatio = viewportSize.width / viewportSize.height;
-  const scaledViewBoxWidth = windowHeight * aspectRatio;
-  const viewBoxX = (viewBox[0] - scaledViewBoxWidth) / 2; // Center horizontally
-  const dynamicViewBox = `${viewBoxX} ${viewBoxY} ${scaledViewBoxWidth} ${windowHeight}`;
+  // Current camera frame; rendered so re-renders keep the live viewBox
+  const frameRef = useRef<CameraFrame | null>(null);
+  if (!frameRef.current) frameRef.current = getCameraTarget(getState());
+  const frame = frameRef.current;
+
+  // Move the camera on every follower update, writing the viewBox directly
+  useEffect(() => {
+    let rafId: number | null = null;
+    let lastTime = 0;
+
+    const update = () => {
+      rafId = null;
+      const target = getCameraTarget(getState());
+      const { config, reducedMotion } = cameraRef.current;
+      const now = performance.now();
+      const dt = lastTime ? (now - lastTime) / 1000 : 0;
+
+      // Jump straight to the target when motion is reduced
+      const next = stepCamera(
+        reducedMotion ? null : cameraStateRef.current,
+        target,
+        dt,
+        config,
+      );
+      cameraStateRef.current = next;
+      frameRef.current = getCameraStateFrame(next, target);
+      svgRef.current?.setAttribute("viewBox", formatViewBox(frameRef.current));
+
+      // Keep easing toward the target after the follower loop sleeps
+      if (isCameraSettled(next, target, config)) {
+        lastTime = 0;
+      } else {
+        lastTime = now;
+        rafId = requestAnimationFrame(update);
+      }
+    };
+
+    const unsubscribe = subscribe(() => {
+      if (rafId === null) update();
+    });
+    return () => {
+      unsubscribe();
+      if (rafId !== null) cancelAnimationFrame(rafId);
+    };
+  }, [subscribe, getState, getCameraTarget]);
+
+  // Static frame for followers until the provider has measured the path.
+  // Primed before paint, so the first visible frame is already in place.
+  useIsomorphicLayoutEffect(
+    () => primeTrack(track, getStaticTrackMeasure(path, frame, viewportSize)),
+    [primeTrack, track, path, frame, viewportSize],
+  );
+
+  // Def ids scoped to this instance
+  const prefix = `scrolling-path-${useId().replace(/:/g, "")}`;
+  const defIds: ScrollingPathDefIds = {
+    prefix,
+    gradient: `${prefix}-gradient`,
+    glow: `${prefix}-glow`,
+  };
+  const stroke =
+    typeof strokeProp === "function"
+      ? strokeProp(defIds)
+      : (strokeProp ?? `url(#${defIds.gradient})`);
+  const {
+    blur: glowBlur = 3,
+    color: glowFilterColor,
+    opacity: glowOpacity = 0.15,
+  } = glowFilter;
+
+  // Progressive reveal: masks drawn with dash offsets against the path length.
+  // The mask paths declare it too, so dashes match however the browser measures.
+  const revealConfig = resolveRevealConfig(reveal);
+  const revealEnabled = revealConfig !== null;
+  const revealStrokeRefs = useRef<(SVGPathElement | null)[]>([]);
+  const aheadStrokeRef = useRef<SVGPathElement>(null);
+  const pathLength = getPathSampler(path).length;
+  const revealRef = useRef({ config: revealConfig, pathLength });
+  revealRef.current = { config: revealConfig, pathLength };
+
+  useEffect(() => {
+    if (!revealEnabled) return;
+    return subscribe((state) => {
+      const { config, pathLength } = revealRef.current;
+      if (!config) return;
+      getRevealStrokes(pathLength, state.easedProgress, config).forEach(
+        (stroke, i) => applyRevealStroke(revealStrokeRefs.current[i], stroke),
+      );
+      applyRevealStroke(
+        aheadStrokeRef.current,
+        getAheadStroke(pathLength, state.easedProgress),
+      );
+    });
+  }, [revealEnabled, subscribe]);
+
+  const revealProgress = getState().easedProgress;
+  const revealStrokes = revealConfig
+    ? getRevealStrokes(pathLength, revealProgress, revealConfig)
+    : [];
+  const aheadStyle =
+    revealConfig?.ahead === true ? {} : revealConfig?.ahead || null;
+  // Wide enough to uncover the glow and its blur
+  const maskStrokeWidth = strokeWidth * 2.5 + glowBlur * 6 + 2;
+  const maskRegion = {
+    maskUnits: "userSpaceOnUse",
+    x: -viewBox[0],
+    y: -viewBox[1],
+    width: viewBox[0] * 3,
+    height: viewBox[1] * 3,
+  } as const;
+
+  const geometry = useMemo(() => ({ path, track }), [path, track]);
 
   const svgStyle: React.CSSProperties = {
     position: "fixed",
@@ -97,56 +513,125 @@ export function ScrollingPath({
     zIndex: 10,
   };
 
-  return (
+  const svg = (
     <svg
       ref={svgRef}
       className={className}
       style={svgStyle}
-      viewBox={dynamicViewBox}
+      viewBox={formatViewBox(frame)}
       preserveAspectRatio="xMidYMid slice"
     >
       <defs>
-        <linearGradient id="pathGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-          <stop offset="0%" stopColor="#ffb81c" />
-          <stop offset="30%" stopColor="#c45c26" />
-          <stop offset="60%" stopColor="#860038" />
-          <stop offset="100%" stopColor="#5b7b8c" />
+        <linearGradient
+          id={defIds.gradient}
+          {...getGradientVector(gradient.direction)}
+        >
+          {getGradientStops(gradient.stops).map((stop, i) => (
+            <stop
+              key={i}
+              offset={`${stop.offset * 100}%`}
+              stopColor={stop.color}
+              stopOpacity={stop.opacity}
+            />
+          ))}
         </linearGradient>
-        <filter id="pathGlow" x="-50%" y="-50%" width="200%" height="200%">
-          <feGaussianBlur stdDeviation="3" result="coloredBlur" />
+        <filter id={defIds.glow} x="-50%" y="-50%" width="200%" height="200%">
+          <feGaussianBlur stdDeviation={glowBlur} result="coloredBlur" />
           <feMerge>
             <feMergeNode in="coloredBlur" />
             <feMergeNode in="SourceGraphic" />
           </feMerge>
         </filter>
+        {revealConfig && (
+          <mask id={`${prefix}-reveal`} {...maskRegion}>
+            {revealStrokes.map((revealStroke, i) => (
+              <path
+                key={i}
+                ref={(el) => {
+                  revealStrokeRefs.current[i] = el;
+                }}
+                d={path}
+                pathLength={pathLength}
+                fill="none"
+                stroke="white"
+                strokeWidth={maskStrokeWidth}
+                {...revealStroke}
+              />
+            ))}
+          </mask>
+        )}
+        {aheadStyle && (
+          <mask id={`${prefix}-ahead`} {...maskRegion}>
+            <path
+              ref={aheadStrokeRef}
+              d={path}
+              pathLength={pathLength}
+              fill="none"
+              stroke="white"
+              strokeWidth={maskStrokeWidth}
+              {...getAheadStroke(pathLength, revealProgress)}
+            />
+          </mask>
+        )}
+        {renderDefs?.(defIds)}
       </defs>
 
-      {/* Background glow path */}
-      {glow && (
+      {/* Undrawn part ahead of the follower */}
+      {aheadStyle && (
         <path
           d={path}
           fill="none"
-          stroke={glowColor || stroke}
-          strokeWidth={strokeWidth * 2.5}
+          stroke={aheadStyle.stroke ?? stroke}
+          strokeWidth={strokeWidth}
+          strokeDasharray={aheadStyle.strokeDasharray ?? strokeDasharray}
           strokeLinecap="round"
-          opacity={0.15}
-          filter="url(#pathGlow)"
+          opacity={aheadStyle.opacity ?? 0.2}
+          mask={`url(#${prefix}-ahead)`}
         />
       )}
 
-      {/* Main visible path */}
-      <path
-        ref={pathRef}
-        d={path}
-        fill="none"
-        stroke={stroke}
-        strokeWidth={strokeWidth}
-        strokeDasharray={strokeDasharray}
-        strokeLinecap="round"
-        opacity={opacity}
-      />
-
-      {children}
+      <g mask={revealConfig ? `url(#${prefix}-reveal)` : undefined}>
+        {/* Background glow path */}
+        {glow && (
+          <path
+            d={path}
+            fill="none"
+            stroke={glowFilterColor || glowColor || stroke}
+            strokeWidth={strokeWidth * 2.5}
+            strokeLinecap="round"
+            opacity={glowOpacity}
+            filter={`url(#${defIds.glow})`}
+          />
+        )}
+
+        {/* Main visible path */}
+        <path
+          ref={pathRef}
+          d={path}
+          fill="none"
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+          strokeDasharray={strokeDasharray}
+          strokeLinecap="round"
+          opacity={opacity}
+        />
+      </g>
+
+      <ScrollingPathContext.Provider value={geometry}>
+        {children}
+      </ScrollingPathContext.Provider>
     </svg>
   );
+
+  if (!defineScrollRange) return svg;
+
+  return (
+    <div
+      ref={rangeRef}
+      style={{ position: "relative", height }}
+      data-scrolling-path-range={track}
+    >
+      {svg}
+    </div>
+  );
 }
@@ -0,0 +1,232 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { usePathFollowerRef } from "./PathFollowerContext";
+import { PathSegment, SegmentState } from "./PathSegment";
+import {
+  SegmentBound,
+  SegmentDefinition,
+  isSameSegmentBound,
+} from "./segmentBounds";
+
+export type SegmentStateSubscriber = (state: SegmentState) => void;
+
+export interface SegmentRef {
+  /** Receive the segment's state on every enter, progress and exit */
+  subscribe: (callback: SegmentStateSubscriber) => () => void;
+  /** The segment's state as of the last frame */
+  getState: () => SegmentState;
+}
+
+interface SegmentProps extends Omit<SegmentDefinition, "children"> {
+  /** Content, or a render function receiving the segment's state */
+  children?: React.ReactNode | ((state: SegmentState) => React.ReactNode);
+  /** Called on every segment update, without re-rendering */
+  onUpdate?: SegmentStateSubscriber;
+}
+
+/** Collects the segments declared inside a `<Segment>` as its children */
+interface SegmentParent {
+  setChild: (segment: PathSegment) => void;
+  removeChild: (id: string) => void;
+}
+
+const SegmentParentContext = createContext<SegmentParent | null>(null);
+
+function isSameSegmentState(a: SegmentState, b: SegmentState): boolean {
+  return (
+    a.active === b.active &&
+    a.progress === b.progress &&
+    a.direction === b.direction
+  );
+}
+
+function useStableBound(bound: SegmentBound | undefined) {
+  const boundRef = useRef(bound);
+  if (!isSameSegmentBound(boundRef.current, bound)) boundRef.current = bound;
+  return boundRef.current;
+}
+
+/**
+ * Hook that follows a segment without re-rendering.
+ * Subscribe and write to the DOM for animation-heavy content.
+ */
+export function useSegmentRef(id: string): SegmentRef {
+  const { subscribeToSegment, getSegmentState } = usePathFollowerRef();
+
+  const subscribe = useCallback(
+    (callback: SegmentStateSubscriber) =>
+      subscribeToSegment(id, (event) => {
+        // Skip events bubbling up from nested segments
+        if (event.segment.id !== id) return;
+        callback({
+          active: event.type !== "exit",
+          progress: event.segmentProgress,
+          direction: event.direction,
+        });
+      }),
+    [id, subscribeToSegment],
+  );
+
+  const getState = useCallback(
+    () => getSegmentState(id),
+    [id, getSegmentState],
+  );
+
+  return { subscribe, getState };
+}
+
+/**
+ * Hook returning a segment's active state, progress and direction.
+ * Re-renders on every update while the segment is active.
+ */
+export function useSegment(id: string): SegmentState {
+  const { subscribe, getState } = useSegmentRef(id);
+  const [state, setState] = useState(getState);
+
+  useEffect(() => {
+    // Catch up with updates between render and subscribing
+    const current = getState();
+    setState((previous) =>
+      isSameSegmentState(previous, current) ? previous : current,
+    );
+    return subscribe(setState);
+  }, [subscribe, getState]);
+
+  return state;
+}
+
+/**
+ * Registers a path segment for as long as it is mounted.
+ * Function children re-render with the segment's state; plain children
+ * don't, and can follow it through `onUpdate` or `useSegmentRef`.
+ * Segments rendered inside it nest, with start and end relative to it.
+ */
+export function Segment({
+  children,
+  onUpdate,
+  id,
+  start,
+  end,
+  target,
+  track,
+  label,
+  data,
+  easing,
+  weight,
+  duration,
+}: SegmentProps) {
+  const { addSegment, removeSegment } = usePathFollowerRef();
+  const { subscribe, getState } = useSegmentRef(id);
+  const renderState = typeof children === "function";
+  const [state, setState] = useState(getState);
+  // Read by the subscription so inline callbacks don't resubscribe
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+  const renderStateRef = useRef(renderState);
+  renderStateRef.current = renderState;
+
+  // Inline bound objects keep their identity while their content is the same
+  const startBound = useStableBound(start);
+  const endBound = useStableBound(end);
+  const definition: SegmentDefinition = {
+    id,
+    start: startBound,
+    end: endBound,
+    target,
+    track,
+    label,
+    data,
+    easing,
+    weight,
+    duration,
+  };
+  const definitionRef = useRef(definition);
+  definitionRef.current = definition;
+
+  const parent = useContext(SegmentParentContext);
+  const childSegmentsRef = useRef<Map<string, PathSegment>>(new Map());
+  const registeredRef = useRef(false);
+
+  // Nested segments register through their parent, which re-adds its subtree
+  const register = useCallback(() => {
+    const { start, end, target, track, ...segment } = definitionRef.current;
+    const children = childSegmentsRef.current.size
+      ? Array.from(childSegmentsRef.current.values())
+      : undefined;
+    if (parent) {
+      // Bounds are relative to the parent, so only progress values apply
+      parent.setChild({
+        ...segment,
+        start: typeof start === "number" ? start : 0,
+        end: typeof end === "number" ? end : 1,
+        children,
+      });
+    } else {
+      addSegment({ ...definitionRef.current, children });
+    }
+  }, [parent, addSegment]);
+
+  const childParent = useMemo(
+    (): SegmentParent => ({
+      setChild: (segment) => {
+        childSegmentsRef.current.set(segment.id, segment);
+        if (registeredRef.current) register();
+      },
+      removeChild: (childId) => {
+        if (!childSegmentsRef.current.delete(childId)) return;
+        if (registeredRef.current) register();
+      },
+    }),
+    [register],
+  );
+
+  useEffect(() => {
+    registeredRef.current = true;
+    register();
+    return () => {
+      registeredRef.current = false;
+      if (parent) {
+        parent.removeChild(id);
+      } else {
+        removeSegment(id);
+      }
+    };
+  }, [
+    id,
+    startBound,
+    endBound,
+    target,
+    track,
+    easing,
+    weight,
+    duration,
+    parent,
+    register,
+    removeSegment,
+  ]);
+
+  // Label and data changes replace the segment without leaving it
+  useEffect(() => {
+    if (registeredRef.current) register();
+  }, [label, data, register]);
+
+  useEffect(() => {
+    return subscribe((next) => {
+      onUpdateRef.current?.(next);
+      if (renderStateRef.current) setState(next);
+    });
+  }, [subscribe]);
+
+  return (
+    <SegmentParentContext.Provider value={childParent}>
+      {typeof children === "function" ? children(state) : children}
+    </SegmentParentContext.Provider>
+  );
+}
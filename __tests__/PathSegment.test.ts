@@ -2,6 +2,9 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   SegmentTracker,
   createSegmentPresets,
+  createProgressRemap,
+  invertProgressRemap,
+  getSegmentSnapPoints,
   PathSegment,
   SegmentEvent,
 } from "../PathSegment";
@@ -36,6 +39,14 @@ describe("SegmentTracker", () => {
       expect(tracker.isActive("new")).toBe(true);
     });
 
+    it("lists tracked segments", () => {
+      expect(tracker.getSegments().map((s) => s.id)).toEqual([
+        "intro",
+        "main",
+        "outro",
+      ]);
+    });
+
     it("removes segment", () => {
       tracker.update(0.5);
       expect(tracker.isActive("main")).toBe(true);
@@ -43,6 +54,44 @@ describe("SegmentTracker", () => {
       tracker.update(0.5);
       expect(tracker.isActive("main")).toBe(false);
     });
+
+    it("emits exit when removing an active segment and keeps subscribers", () => {
+      const callback = vi.fn();
+      tracker.subscribe("main", callback);
+      tracker.update(0.5);
+
+      tracker.removeSegment("main");
+      const exit = callback.mock.lastCall![0] as SegmentEvent;
+      expect(exit.type).toBe("exit");
+      expect(exit.segmentProgress).toBeCloseTo(0.5);
+
+      tracker.addSegment({ id: "main", start: 0.4, end: 0.6 });
+      tracker.update(0.45);
+      expect(callback).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: "enter" }),
+      );
+    });
+
+    it("replaces a segment added again under the same id", () => {
+      tracker.addSegment({ id: "intro", start: 0, end: 0.1 });
+      expect(tracker.getSegments()).toHaveLength(3);
+      expect(tracker.getSegments()[0].end).toBe(0.1);
+    });
+
+    it("reports segment state as of the last update", () => {
+      expect(tracker.getSegmentState("main")).toEqual({
+        active: false,
+        progress: 0,
+        direction: 1,
+      });
+      tracker.update(0.9);
+      tracker.update(0.5);
+      const state = tracker.getSegmentState("main");
+      expect(state.active).toBe(true);
+      expect(state.progress).toBeCloseTo(0.5);
+      expect(state.direction).toBe(-1);
+      expect(tracker.getSegmentState("missing").active).toBe(false);
+    });
   });
 
   describe("update and events", () => {
@@ -121,6 +170,201 @@ describe("SegmentTracker", () => {
     });
   });
 
+  describe("pass-through and ordering", () => {
+    const record = (target: SegmentTracker) => {
+      const events: SegmentEvent[] = [];
+      target.subscribeAll((event) => events.push(event));
+      return events;
+    };
+    const describeEvent = (e: SegmentEvent) =>
+      `${e.type}:${e.segment.id}${e.skipped ? ":skipped" : ""}`;
+
+    it("emits skipped enter and exit for segments passed over", () => {
+      tracker.update(0.1);
+      const events = record(tracker);
+
+      tracker.update(0.9);
+
+      expect(events.map(describeEvent)).toEqual([
+        "exit:intro",
+        "enter:main:skipped",
+        "exit:main:skipped",
+        "enter:outro",
+      ]);
+      const skipped = events.filter((e) => e.skipped);
+      expect(skipped.map((e) => e.segmentProgress)).toEqual([0, 1]);
+      expect(tracker.isActive("main")).toBe(false);
+    });
+
+    it("passes over segments in reverse when travelling backward", () => {
+      const many = new SegmentTracker(createSegmentPresets.equal(5, "s"));
+      many.update(0.95);
+      const events = record(many);
+
+      many.update(0.05);
+
+      expect(events.map(describeEvent)).toEqual([
+        "exit:s-4",
+        "enter:s-3:skipped",
+        "exit:s-3:skipped",
+        "enter:s-2:skipped",
+        "exit:s-2:skipped",
+        "enter:s-1:skipped",
+        "exit:s-1:skipped",
+        "enter:s-0",
+      ]);
+      expect(events.every((e) => e.direction === -1)).toBe(true);
+      const skippedEnter = events.find((e) => e.skipped);
+      expect(skippedEnter?.segmentProgress).toBe(1);
+    });
+
+    it("does not pass over segments on the first update", () => {
+      const events = record(tracker);
+      tracker.update(0.9);
+      expect(events.map(describeEvent)).toEqual(["enter:outro"]);
+    });
+
+    it("orders overlapping segments by start, then end, then insertion", () => {
+      const overlapping = new SegmentTracker([
+        { id: "late", start: 0.4, end: 0.8 },
+        { id: "wide", start: 0.2, end: 0.9 },
+        { id: "narrow", start: 0.2, end: 0.6 },
+        { id: "twin", start: 0.2, end: 0.6 },
+      ]);
+      overlapping.update(0);
+      const events = record(overlapping);
+
+      overlapping.update(0.5);
+      expect(events.map(describeEvent)).toEqual([
+        "enter:narrow",
+        "enter:twin",
+        "enter:wide",
+        "enter:late",
+      ]);
+
+      events.length = 0;
+      overlapping.update(0.1);
+      expect(events.map(describeEvent)).toEqual([
+        "exit:wide",
+        "exit:late",
+        "exit:narrow",
+        "exit:twin",
+      ]);
+    });
+  });
+
+  describe("nested segments", () => {
+    const chapters: PathSegment[] = [
+      {
+        id: "chapter-1",
+        start: 0,
+        end: 0.5,
+        children: [
+          { id: "scene-1", start: 0, end: 0.5 },
+          { id: "scene-2", start: 0.5, end: 1 },
+        ],
+      },
+      { id: "chapter-2", start: 0.5, end: 1 },
+    ];
+    const describeEvent = (e: SegmentEvent) =>
+      `${e.type}:${e.segment.id}${e.skipped ? ":skipped" : ""}`;
+
+    it("resolves children relative to their parent", () => {
+      const nested = new SegmentTracker(chapters);
+      expect(nested.getSegments().map((s) => [s.id, s.start, s.end])).toEqual([
+        ["chapter-1", 0, 0.5],
+        ["scene-1", 0, 0.25],
+        ["scene-2", 0.25, 0.5],
+        ["chapter-2", 0.5, 1],
+      ]);
+    });
+
+    it("returns the active hierarchy", () => {
+      const nested = new SegmentTracker(chapters);
+      nested.update(0.3);
+      expect(nested.getActiveSegments().map((s) => s.id)).toEqual([
+        "chapter-1",
+        "scene-2",
+      ]);
+      expect(nested.getSegmentPath("scene-2").map((s) => s.id)).toEqual([
+        "chapter-1",
+        "scene-2",
+      ]);
+    });
+
+    it("bubbles events to parents with the full path", () => {
+      const nested = new SegmentTracker(chapters);
+      const chapter = vi.fn();
+      const scene = vi.fn();
+      nested.subscribe("chapter-1", chapter);
+      nested.subscribe("scene-2", scene);
+
+      nested.update(0.3);
+
+      expect(scene).toHaveBeenCalledTimes(1);
+      expect(chapter.mock.calls.map(([e]) => describeEvent(e))).toEqual([
+        "enter:chapter-1",
+        "enter:scene-2",
+      ]);
+      const [[sceneEvent]] = scene.mock.calls as [SegmentEvent][];
+      expect(sceneEvent.path.map((s) => s.id)).toEqual([
+        "chapter-1",
+        "scene-2",
+      ]);
+    });
+
+    it("nests children inside their parent's enter and exit", () => {
+      const nested = new SegmentTracker(chapters);
+      nested.update(0.2);
+      const events: SegmentEvent[] = [];
+      nested.subscribeAll((event) => events.push(event));
+
+      nested.update(0.9);
+      expect(events.map(describeEvent)).toEqual([
+        "exit:scene-1",
+        "enter:scene-2:skipped",
+        "exit:scene-2:skipped",
+        "exit:chapter-1",
+        "enter:chapter-2",
+      ]);
+
+      events.length = 0;
+      nested.update(0.1);
+      expect(events.map(describeEvent)).toEqual([
+        "exit:chapter-2",
+        "enter:chapter-1",
+        "enter:scene-2:skipped",
+        "exit:scene-2:skipped",
+        "enter:scene-1",
+      ]);
+    });
+
+    it("replaces and removes a parent with its children", () => {
+      const nested = new SegmentTracker(chapters);
+      nested.update(0.1);
+      const events: SegmentEvent[] = [];
+      nested.subscribeAll((event) => events.push(event));
+
+      nested.addSegment({
+        id: "chapter-1",
+        start: 0,
+        end: 0.5,
+        children: [{ id: "scene-3", start: 0.5, end: 1 }],
+      });
+      expect(events.map(describeEvent)).toEqual(["exit:scene-1"]);
+      expect(nested.getSegments().map((s) => s.id)).toEqual([
+        "chapter-1",
+        "scene-3",
+        "chapter-2",
+      ]);
+
+      events.length = 0;
+      nested.removeSegment("chapter-1");
+      expect(events.map(describeEvent)).toEqual(["exit:chapter-1"]);
+      expect(nested.getSegments().map((s) => s.id)).toEqual(["chapter-2"]);
+    });
+  });
+
   describe("subscription", () => {
     it("unsubscribes correctly", () => {
       const callback = vi.fn();
@@ -146,6 +390,21 @@ describe("SegmentTracker", () => {
       expect(callback.mock.calls.length).toBeGreaterThanOrEqual(1);
     });
 
+    it("subscribeAll covers segments added later", () => {
+      const callback = vi.fn();
+      tracker.subscribeAll(callback);
+      tracker.addSegment({ id: "late", start: 0.5, end: 0.6 });
+
+      tracker.update(0.55);
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "enter",
+          segment: expect.objectContaining({ id: "late" }),
+        }),
+      );
+    });
+
     it("subscribeAll unsubscribes all", () => {
       const callback = vi.fn();
       const unsubscribe = tracker.subscribeAll(callback);
@@ -165,13 +424,36 @@ describe("SegmentTracker", () => {
       expect(tracker.isActive("main")).toBe(false);
     });
 
-    it("getActiveSegments returns all active segments", () => {
+    it("hands over at touching boundaries", () => {
       tracker.update(0.3); // At boundary of intro and main
-      const active = tracker.getActiveSegments();
+      expect(tracker.getActiveSegments().map((s) => s.id)).toEqual(["main"]);
+
+      tracker.update(1);
+      expect(tracker.isActive("outro")).toBe(true);
+    });
+
+    it("getActiveSegments returns all active segments with inclusive boundaries", () => {
+      const inclusive = new SegmentTracker(testSegments, {
+        boundaries: "inclusive",
+      });
+      inclusive.update(0.3);
+      const active = inclusive.getActiveSegments();
       expect(active.map((s) => s.id)).toContain("intro");
       expect(active.map((s) => s.id)).toContain("main");
     });
 
+    it("leaves boundaries out with exclusive boundaries", () => {
+      const exclusive = new SegmentTracker(testSegments, {
+        boundaries: "exclusive",
+      });
+      exclusive.update(0.3);
+      expect(exclusive.getActiveSegments()).toHaveLength(0);
+
+      exclusive.setOptions({ boundaries: "inclusive" });
+      exclusive.update(0.3);
+      expect(exclusive.getActiveSegments()).toHaveLength(2);
+    });
+
     it("handles overlapping segments", () => {
       const overlapping = new SegmentTracker([
         { id: "a", start: 0, end: 0.6 },
@@ -212,6 +494,28 @@ describe("createSegmentPresets", () => {
     });
   });
 
+  describe("nested", () => {
+    it("creates nested equal divisions", () => {
+      const segments = createSegmentPresets.nested([2, 3], "chapter");
+      expect(segments.map((s) => s.id)).toEqual(["chapter-0", "chapter-1"]);
+      expect(segments[1].children).toHaveLength(3);
+      expect(segments[1].children![2]).toEqual({
+        id: "chapter-1-2",
+        start: 2 / 3,
+        end: 1,
+        label: "chapter 2.3",
+      });
+
+      const tracker = new SegmentTracker(segments);
+      const [, scene] = tracker.getSegments();
+      expect(scene.end).toBeCloseTo(1 / 6);
+    });
+
+    it("returns no segments without counts", () => {
+      expect(createSegmentPresets.nested([])).toEqual([]);
+    });
+  });
+
   describe("waypoints", () => {
     it("creates waypoint segments around points", () => {
       const segments = createSegmentPresets.waypoints([0.25, 0.5, 0.75]);
@@ -232,5 +536,228 @@ describe("createSegmentPresets", () => {
       const segments = createSegmentPresets.waypoints([0.5], "marker");
       expect(segments[0].id).toBe("marker-0");
     });
+
+    it("uses a custom window width", () => {
+      const [segment] = createSegmentPresets.waypoints([0.5], "waypoint", {
+        width: 0.5,
+      });
+      expect(segment.start).toBe(0.25);
+      expect(segment.end).toBe(0.75);
+    });
+
+    it("measures length widths along the path", () => {
+      const [segment] = createSegmentPresets.waypoints([0.5], "waypoint", {
+        width: { length: 100 },
+        path: "M 0 0 L 400 0",
+      });
+      expect(segment.start).toBeCloseTo(0.375);
+      expect(segment.end).toBeCloseTo(0.625);
+    });
+  });
+
+  describe("path geometry", () => {
+    it("creates one segment per subpath", () => {
+      const segments = createSegmentPresets.subpaths(
+        "M 0 0 L 100 0 M 0 50 L 300 50",
+      );
+      expect(segments.map((s) => s.id)).toEqual(["subpath-0", "subpath-1"]);
+      expect(segments[0].start).toBe(0);
+      expect(segments[0].end).toBeCloseTo(0.25);
+      expect(segments[1].end).toBe(1);
+    });
+
+    it("creates one segment per command", () => {
+      const segments = createSegmentPresets.commands(
+        "M 0 0 L 100 0 L 100 300",
+        "leg",
+      );
+      expect(segments).toHaveLength(2);
+      expect(segments[1]).toMatchObject({
+        id: "leg-1",
+        label: "leg 2",
+        end: 1,
+      });
+      expect(segments[1].start).toBeCloseTo(0.25);
+    });
+
+    it("splits at sharp turns", () => {
+      const segments = createSegmentPresets.sharpTurns(
+        "M 0 0 L 100 0 L 100 100",
+      );
+      expect(segments).toHaveLength(2);
+      expect(segments[0].end).toBeCloseTo(0.5, 2);
+      expect(createSegmentPresets.sharpTurns("M 0 0 L 400 0")).toHaveLength(1);
+    });
+
+    it("ignores turns below the curvature threshold", () => {
+      const arc = "M 0 0 A 500 500 0 0 1 500 500";
+      expect(createSegmentPresets.sharpTurns(arc)).toHaveLength(1);
+      const segments = createSegmentPresets.sharpTurns(arc, {
+        curvature: 0.001,
+      });
+      expect(segments).toHaveLength(2);
+      expect(segments[0].end).toBeCloseTo(0.5, 2);
+    });
+
+    it("splits at local extrema", () => {
+      const zigzag = "M 0 0 L 100 100 L 200 0 L 300 100";
+      const segments = createSegmentPresets.extrema(zigzag);
+      expect(segments).toHaveLength(3);
+      expect(segments[0].end).toBeCloseTo(1 / 3, 2);
+      expect(segments[1].end).toBeCloseTo(2 / 3, 2);
+      expect(createSegmentPresets.extrema(zigzag, { axis: "x" })).toHaveLength(
+        1,
+      );
+    });
+  });
+});
+
+describe("createProgressRemap", () => {
+  it("returns identity when no segment remaps progress", () => {
+    const remap = createProgressRemap([{ id: "a", start: 0, end: 0.5 }]);
+    expect(remap(0.3)).toBe(0.3);
+  });
+
+  it("slows through heavily weighted segments", () => {
+    // Feature segment takes 2x its natural scroll share
+    const remap = createProgressRemap([
+      { id: "intro", start: 0, end: 0.5 },
+      { id: "feature", start: 0.5, end: 1, weight: 2 },
+    ]);
+
+    // Intro now covers the first third of the scroll
+    expect(remap(1 / 3)).toBeCloseTo(0.5);
+    expect(remap(2 / 3)).toBeCloseTo(0.75);
+    expect(remap(1)).toBe(1);
+  });
+
+  it("gives segments an explicit share of scroll with duration", () => {
+    const remap = createProgressRemap([
+      { id: "rush", start: 0, end: 0.8, duration: 0.2 },
+    ]);
+
+    // The rush takes 20% of the scroll, the rest of the path gets 80%
+    expect(remap(0.1)).toBeCloseTo(0.4);
+    expect(remap(0.2)).toBeCloseTo(0.8);
+    expect(remap(0.6)).toBeCloseTo(0.9);
+  });
+
+  it("splits the scroll left by durations by length and weight", () => {
+    const remap = createProgressRemap([
+      { id: "a", start: 0, end: 0.2, duration: 0.5 },
+      { id: "b", start: 0.2, end: 0.6 },
+      { id: "c", start: 0.6, end: 1, weight: 3 },
+    ]);
+
+    // b and c share the other half 1:3
+    expect(remap(0.5)).toBeCloseTo(0.2);
+    expect(remap(0.625)).toBeCloseTo(0.6);
+    expect(remap(1)).toBe(1);
+  });
+
+  it("scales durations that add up to more than the whole scroll", () => {
+    const remap = createProgressRemap([
+      { id: "a", start: 0, end: 0.5, duration: 0.9 },
+      { id: "b", start: 0.5, end: 1, duration: 0.9 },
+    ]);
+    expect(remap(0.5)).toBeCloseTo(0.5);
+    expect(remap(0.25)).toBeCloseTo(0.25);
+  });
+
+  it("applies per-segment easing", () => {
+    const remap = createProgressRemap([
+      { id: "a", start: 0, end: 0.5 },
+      { id: "b", start: 0.5, end: 1, easing: "easeInQuad" },
+    ]);
+
+    expect(remap(0.25)).toBeCloseTo(0.25);
+    expect(remap(0.75)).toBeCloseTo(0.5 + 0.25 * 0.5);
+  });
+
+  it("fills gaps and ignores overlapping segments", () => {
+    const remap = createProgressRemap([
+      { id: "a", start: 0.2, end: 0.4, weight: 1 },
+      { id: "overlap", start: 0.3, end: 0.6, weight: 10 },
+    ]);
+
+    expect(remap(0.1)).toBeCloseTo(0.1);
+    expect(remap(0.5)).toBeCloseTo(0.5);
+  });
+
+  it("remaps nested segments within their parent's span", () => {
+    const tracker = new SegmentTracker([
+      {
+        id: "chapter",
+        start: 0,
+        end: 0.5,
+        children: [
+          { id: "scene", start: 0, end: 0.5 },
+          { id: "detail", start: 0.5, end: 1, weight: 3 },
+        ],
+      },
+    ]);
+    const remap = createProgressRemap(tracker.getSegments());
+
+    // The chapter keeps half the scroll; the detail takes 3/4 of it
+    expect(remap(0.125)).toBeCloseTo(0.25);
+    expect(remap(0.5)).toBeCloseTo(0.5);
+    expect(remap(0.75)).toBeCloseTo(0.75);
+  });
+
+  it("flattens easings that overshoot so the remap stays monotonic", () => {
+    const overshoot = (t: number) => t + Math.sin(t * Math.PI * 3) * 0.2;
+    const remap = createProgressRemap([
+      { id: "a", start: 0, end: 1, easing: overshoot },
+    ]);
+
+    let previous = 0;
+    for (let i = 0; i <= 100; i++) {
+      const value = remap(i / 100);
+      expect(value).toBeGreaterThanOrEqual(previous);
+      expect(value).toBeLessThanOrEqual(1);
+      previous = value;
+    }
+    expect(remap(invertProgressRemap(remap, 0.9))).toBeCloseTo(0.9);
+  });
+
+  it("clamps progress", () => {
+    const remap = createProgressRemap([
+      { id: "a", start: 0, end: 1, weight: 2 },
+    ]);
+    expect(remap(-1)).toBe(0);
+    expect(remap(2)).toBe(1);
+  });
+});
+
+describe("invertProgressRemap", () => {
+  it("finds the scroll progress for a path progress", () => {
+    const remap = createProgressRemap([
+      { id: "intro", start: 0, end: 0.5 },
+      { id: "feature", start: 0.5, end: 1, weight: 2 },
+    ]);
+    expect(invertProgressRemap(remap, 0.5)).toBeCloseTo(1 / 3, 6);
+    expect(invertProgressRemap(remap, 1)).toBeCloseTo(1, 6);
+  });
+});
+
+describe("getSegmentSnapPoints", () => {
+  const segments: PathSegment[] = [
+    { id: "b", start: 0.5, end: 1 },
+    { id: "a", start: 0, end: 0.5 },
+  ];
+
+  it("collects sorted segment starts by default", () => {
+    expect(getSegmentSnapPoints(segments)).toEqual([0, 0.5]);
+  });
+
+  it("collects ends and centers", () => {
+    expect(getSegmentSnapPoints(segments, "ends")).toEqual([0.5, 1]);
+    expect(getSegmentSnapPoints(segments, "centers")).toEqual([0.25, 0.75]);
+  });
+
+  it("uses explicit values, clamped and de-duplicated", () => {
+    expect(getSegmentSnapPoints(segments, [0.8, 0.2, 0.2, 1.5])).toEqual([
+      0.2, 0.8, 1,
+    ]);
   });
 });
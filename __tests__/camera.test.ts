@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  CameraInput,
+  resolveCameraConfig,
+  getCameraFrame,
+  getCameraStateFrame,
+  stepCamera,
+  isCameraSettled,
+} from "../camera";
+
+const input = (overrides: Partial<CameraInput> = {}): CameraInput => ({
+  viewBox: [1000, 2000],
+  viewport: { width: 800, height: 800 },
+  scrollProgress: 0.5,
+  point: { x: 500, y: 1000 },
+  ...overrides,
+});
+
+describe("camera", () => {
+  describe("resolveCameraConfig", () => {
+    it("accepts a mode or a config", () => {
+      expect(resolveCameraConfig("fixed")).toEqual({ mode: "fixed" });
+      expect(resolveCameraConfig({ zoom: 2 })).toEqual({ zoom: 2 });
+      expect(resolveCameraConfig()).toEqual({});
+    });
+  });
+
+  describe("getCameraFrame", () => {
+    it("follows scroll progress vertically by default", () => {
+      expect(getCameraFrame({}, input())).toEqual({
+        x: 300,
+        y: 800,
+        width: 400,
+        height: 400,
+      });
+    });
+
+    it("clamps follow modes to the viewBox", () => {
+      const frame = getCameraFrame({}, input({ scrollProgress: 0 }));
+      expect(frame.y).toBe(0);
+      const end = getCameraFrame({}, input({ scrollProgress: 1 }));
+      expect(end.y).toBe(1600);
+    });
+
+    it("frames the whole viewBox in fixed mode", () => {
+      // Centered horizontally, since the square viewport is wider than the path
+      expect(getCameraFrame({ mode: "fixed" }, input())).toEqual({
+        x: -500,
+        y: 0,
+        width: 2000,
+        height: 2000,
+      });
+    });
+
+    it("tracks the point on both axes in follow-point mode", () => {
+      const frame = getCameraFrame(
+        { mode: "follow-point" },
+        input({ point: { x: 700, y: 300 } }),
+      );
+      expect(frame).toEqual({ x: 500, y: 100, width: 400, height: 400 });
+    });
+
+    it("fits the active segment, or follows the point between segments", () => {
+      const bounds = { minX: 100, minY: 100, maxX: 500, maxY: 300 };
+      const frame = getCameraFrame(
+        { mode: "fit-segment", padding: 0 },
+        input({ segmentBounds: bounds }),
+      );
+      expect(frame).toEqual({ x: 100, y: 0, width: 400, height: 400 });
+
+      const between = getCameraFrame({ mode: "fit-segment" }, input());
+      expect(between).toEqual(
+        getCameraFrame({ mode: "follow-point" }, input()),
+      );
+    });
+
+    it("applies zoom", () => {
+      const frame = getCameraFrame({ zoom: 2 }, input());
+      expect(frame.height).toBe(200);
+      expect(frame.y).toBe(900);
+    });
+
+    it("falls back to the viewBox aspect without a viewport", () => {
+      const frame = getCameraFrame(
+        {},
+        input({ viewport: { width: 0, height: 0 } }),
+      );
+      expect(frame.width).toBe(1000);
+    });
+  });
+
+  describe("stepCamera", () => {
+    const target = { x: 300, y: 800, width: 400, height: 400 };
+
+    it("starts at the target", () => {
+      const state = stepCamera(null, target, 0, {});
+      expect(getCameraStateFrame(state, target)).toEqual(target);
+      expect(isCameraSettled(state, target, {})).toBe(true);
+    });
+
+    it("holds still while the target stays inside the dead zone", () => {
+      const config = { deadZone: 0.5 };
+      const state = stepCamera(null, target, 0, config);
+      const moved = { ...target, y: 850 };
+      const held = stepCamera(state, moved, 1 / 60, config);
+      expect(held.centerY.value).toBe(1000);
+      expect(isCameraSettled(held, moved, config)).toBe(true);
+
+      // Leaving the zone pans just enough to keep the target at its edge
+      const far = stepCamera(held, { ...target, y: 1000 }, 1 / 60, config);
+      expect(far.centerY.value).toBe(1100);
+    });
+
+    it("eases toward the target with smoothing", () => {
+      const config = { smoothing: { type: "exponential" as const } };
+      const state = stepCamera(null, target, 0, config);
+      const moved = { ...target, y: 1000 };
+      const next = stepCamera(state, moved, 0.1, config);
+      expect(next.centerY.value).toBeCloseTo(1100);
+      expect(isCameraSettled(next, moved, config)).toBe(false);
+    });
+  });
+});
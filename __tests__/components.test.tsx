@@ -1,8 +1,26 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import * as React from "react";
-import { render } from "@testing-library/react";
-import { ParallaxProvider, useParallax } from "../ParallaxContext";
+import { act, render } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { hydrateRoot } from "react-dom/client";
+import {
+  ParallaxContext,
+  ParallaxProvider,
+  useParallax,
+} from "../ParallaxContext";
 import { ParallaxLayer } from "../ParallaxLayer";
+import {
+  PathFollowerProvider,
+  usePathFollowerRef,
+} from "../PathFollowerContext";
+import { Animate } from "../Animate";
+import { ScrollingPath, useScrollingPath } from "../ScrollingPath";
+import { PathMarker } from "../PathMarker";
+import { FollowerTrail } from "../FollowerTrail";
+import { FixedFollower } from "../FixedFollower";
+import { Segment, useSegment } from "../Segment";
+import { createSegmentPresets } from "../PathSegment";
+import { SnapConfig } from "../pathFollowerTypes";
 
 // Test component to access context
 function ContextConsumer() {
@@ -74,6 +92,47 @@ describe("useParallax", () => {
   });
 });
 
+describe("ParallaxContext", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("reads the live scroll position from the raw value", () => {
+    vi.spyOn(window, "requestAnimationFrame").mockImplementation((cb) => {
+      cb(performance.now());
+      return 1;
+    });
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe() {}
+        disconnect() {}
+      },
+    );
+    const container = document.createElement("div");
+    container.scrollTop = 250;
+    let context: React.ContextType<typeof ParallaxContext> = null;
+    function RawConsumer() {
+      context = React.useContext(ParallaxContext);
+      return null;
+    }
+    render(
+      <ParallaxProvider scrollContainer={container}>
+        <RawConsumer />
+      </ParallaxProvider>,
+    );
+    expect(context?.scrollY).toBe(250);
+
+    container.scrollTop = 400;
+    act(() => {
+      container.dispatchEvent(new Event("scroll"));
+    });
+    expect(context?.scrollY).toBe(400);
+    expect(context?.scrollX).toBe(0);
+  });
+});
+
 describe("ParallaxLayer", () => {
   it("renders children", () => {
     const { getByTestId } = render(
@@ -140,6 +199,20 @@ describe("ParallaxLayer", () => {
     expect(layer).toHaveStyle({ willChange: "transform" });
   });
 
+  it("keeps layers static when motion is reduced", () => {
+    const { getByText } = render(
+      <ParallaxProvider reducedMotion="always">
+        <ParallaxLayer speed={2}>
+          <span>Content</span>
+        </ParallaxLayer>
+      </ParallaxProvider>,
+    );
+
+    const layer = getByText("Content").parentElement;
+    expect(layer).toHaveStyle({ transform: "translate3d(0px, 0px, 0)" });
+    expect(layer?.style.willChange).toBe("");
+  });
+
   it("renders multiple layers independently", () => {
     const { getByTestId } = render(
       <ParallaxProvider>
@@ -162,3 +235,1116 @@ describe("ParallaxLayer", () => {
     expect(layer2).toHaveAttribute("data-parallax-layer", "layer-2");
   });
 });
+
+describe("PathFollowerProvider", () => {
+  let frames: FrameRequestCallback[] = [];
+
+  const flushFrames = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      const pending = frames;
+      frames = [];
+      pending.forEach((cb) => cb(performance.now()));
+    }
+  };
+
+  beforeEach(() => {
+    frames = [];
+    vi.spyOn(window, "requestAnimationFrame").mockImplementation((cb) => {
+      frames.push(cb);
+      return frames.length;
+    });
+    vi.spyOn(window, "cancelAnimationFrame").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    delete (SVGSVGElement.prototype as Partial<SVGSVGElement>).getScreenCTM;
+  });
+
+  // jsdom has no SVG layout, so mounted ScrollingPaths need a CTM stub
+  function stubScreenCTM() {
+    Object.defineProperty(SVGSVGElement.prototype, "getScreenCTM", {
+      value: () => null,
+      configurable: true,
+      writable: true,
+    });
+  }
+
+  // Screen coordinates equal viewBox coordinates with `identityCTM`
+  function TestPath({
+    identityCTM = false,
+    track,
+  }: {
+    identityCTM?: boolean;
+    track?: string;
+  }) {
+    const { registerPath, unregisterPath } = usePathFollowerRef();
+    const svgRef = React.useRef<SVGSVGElement>(null);
+    const pathRef = React.useRef<SVGPathElement>(null);
+
+    React.useEffect(() => {
+      const svg = svgRef.current!;
+      svg.getScreenCTM = () => (identityCTM ? ({} as DOMMatrix) : null);
+      svg.createSVGPoint = () => {
+        const pt = { x: 0, y: 0, matrixTransform: () => ({ ...pt }) };
+        return pt as unknown as DOMPoint;
+      };
+      registerPath(pathRef.current!, svg, 100, track);
+      return () => unregisterPath(track);
+    }, [registerPath, unregisterPath, identityCTM, track]);
+
+    return (
+      <svg ref={svgRef}>
+        <path ref={pathRef} d="M 0 0 L 0 100" />
+      </svg>
+    );
+  }
+
+  function createContainer() {
+    const container = document.createElement("div");
+    Object.defineProperties(container, {
+      scrollTop: { value: 0, writable: true },
+      scrollLeft: { value: 0, writable: true },
+      scrollHeight: { value: 3000, writable: true },
+      scrollWidth: { value: 500, writable: true },
+      clientHeight: { value: 1000, writable: true },
+      clientWidth: { value: 500, writable: true },
+    });
+    return container;
+  }
+
+  function StatsProbe({
+    onReady,
+  }: {
+    onReady: (ctx: ReturnType<typeof usePathFollowerRef>) => void;
+  }) {
+    const ctx = usePathFollowerRef();
+    onReady(ctx);
+    return null;
+  }
+
+  it("sleeps once progress settles and wakes on scroll", () => {
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    render(
+      <PathFollowerProvider smooth={false}>
+        <TestPath />
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>,
+    );
+
+    flushFrames(5);
+    expect(frames).toHaveLength(0);
+    expect(ctx.getLoopStats().sleeping).toBe(true);
+
+    const runBefore = ctx.getLoopStats().framesRun;
+    window.dispatchEvent(new Event("scroll"));
+    expect(ctx.getLoopStats().sleeping).toBe(false);
+
+    flushFrames(5);
+    expect(ctx.getLoopStats().framesRun).toBeGreaterThan(runBefore);
+    expect(ctx.getLoopStats().sleeping).toBe(true);
+  });
+
+  it("moves FixedFollower and ParallaxLayer without re-renders", () => {
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe() {}
+        disconnect() {}
+      },
+    );
+    const container = createContainer();
+    const onRender = vi.fn();
+    const { getByText } = render(
+      <ParallaxProvider scrollContainer={container}>
+        <PathFollowerProvider smooth={false} scrollContainer={container}>
+          <React.Profiler id="scene" onRender={onRender}>
+            <TestPath identityCTM />
+            <FixedFollower>Follower</FixedFollower>
+            <ParallaxLayer scrollOffset={-1000}>
+              <span>Layer</span>
+            </ParallaxLayer>
+          </React.Profiler>
+        </PathFollowerProvider>
+      </ParallaxProvider>,
+    );
+    act(() => flushFrames(1));
+    const follower = getByText("Follower");
+    const layer = getByText("Layer").parentElement!;
+    expect(layer.style.transform).toBe("translate3d(0px, -250px, 0)");
+    const renders = onRender.mock.calls.length;
+
+    for (const scrollTop of [250, 500]) {
+      container.scrollTop = scrollTop;
+      act(() => {
+        container.dispatchEvent(new Event("scroll"));
+        flushFrames(2);
+      });
+    }
+
+    expect(onRender).toHaveBeenCalledTimes(renders);
+    expect(follower.style.transform).toContain("translate3d(0px, 25px, 0)");
+    expect(layer.style.transform).toBe("translate3d(0px, 0px, 0)");
+  });
+
+  it("applies Animate keyframes without a re-render", () => {
+    const { getByTestId } = render(
+      <PathFollowerProvider>
+        <Animate keyframes={{ 0: { opacity: 0.25 }, 1: { opacity: 1 } }}>
+          <span data-testid="animated">Content</span>
+        </Animate>
+      </PathFollowerProvider>,
+    );
+
+    const wrapper = getByTestId("animated").parentElement as HTMLElement;
+    expect(wrapper.style.opacity).toBe("0.25");
+  });
+
+  it("steps between waypoints without smoothing when motion is reduced", () => {
+    const container = createContainer();
+    container.scrollTop = 800; // 40% scrolled
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    render(
+      <PathFollowerProvider
+        reducedMotion="always"
+        scrollContainer={container}
+        segments={[
+          { id: "a", start: 0.2, end: 0.5 },
+          { id: "b", start: 0.5, end: 1 },
+        ]}
+      >
+        <TestPath />
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>,
+    );
+
+    flushFrames(1);
+    expect(ctx.getState().scrollProgress).toBeCloseTo(0.4);
+    expect(ctx.getState().pathProgress).toBe(0.2);
+    expect(ctx.isSegmentActive("a")).toBe(true);
+
+    container.scrollTop = 1200;
+    container.dispatchEvent(new Event("scroll"));
+    flushFrames(1);
+    expect(ctx.getState().pathProgress).toBe(0.5);
+  });
+
+  it("tracks scroll directly under reduced motion without segments", () => {
+    const container = createContainer();
+    container.scrollTop = 1000; // 50% scrolled
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    render(
+      <PathFollowerProvider reducedMotion="always" scrollContainer={container}>
+        <TestPath />
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>,
+    );
+
+    flushFrames(1);
+    expect(ctx.getState().pathProgress).toBeCloseTo(0.5);
+    expect(ctx.getState().position).toEqual({ x: 0, y: 50 });
+  });
+
+  it("reports speed and signed velocity when scrolling back", () => {
+    let now = 1000;
+    vi.spyOn(performance, "now").mockImplementation(() => now);
+    const container = createContainer();
+    container.scrollTop = 1000;
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    render(
+      <PathFollowerProvider scrollContainer={container}>
+        <TestPath />
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>,
+    );
+    const step = (count: number) => {
+      for (let i = 0; i < count; i++) {
+        now += 16;
+        flushFrames(1);
+      }
+    };
+    step(200);
+
+    container.scrollTop = 200;
+    container.dispatchEvent(new Event("scroll"));
+    step(3);
+    const { velocity, signedVelocity } = ctx.getState();
+    expect(signedVelocity).toBeLessThan(0);
+    expect(velocity).toBe(-signedVelocity);
+  });
+
+  it("samples a track at any progress", () => {
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    render(
+      <PathFollowerProvider>
+        <TestPath />
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>,
+    );
+
+    const sample = ctx.sampleAt(0.25)!;
+    expect(sample.position).toEqual({ x: 0, y: 25 });
+    expect(sample.angle).toBe(90);
+    expect(ctx.sampleAt(1.5)!.position.y).toBe(100);
+    expect(ctx.sampleAt(0.5, "missing")).toBe(null);
+    expect(ctx.getPathLength()).toBe(100);
+  });
+
+  it("offsets and delays FixedFollower along the path", () => {
+    let now = 1000;
+    vi.spyOn(performance, "now").mockImplementation(() => now);
+    const container = createContainer();
+    const { getByText } = render(
+      <PathFollowerProvider smooth={false} scrollContainer={container}>
+        <TestPath identityCTM />
+        <FixedFollower progressOffset={-0.1}>Trailing</FixedFollower>
+        <FixedFollower progressOffset={{ length: 20 }}>Leading</FixedFollower>
+        <FixedFollower lag={100}>Echo</FixedFollower>
+      </PathFollowerProvider>,
+    );
+    const translateY = (text: string) =>
+      getByText(text).style.transform.match(/translate3d\(0px, (.+?)px/)![1];
+
+    now = 2000;
+    container.scrollTop = 1000; // 50% scrolled
+    act(() => {
+      container.dispatchEvent(new Event("scroll"));
+      flushFrames(1);
+    });
+    expect(translateY("Trailing")).toBe("40");
+    expect(translateY("Leading")).toBe("70");
+    expect(translateY("Echo")).toBe("0");
+
+    // The echo replays progress 100ms later, then stops its loop
+    now = 2100;
+    act(() => flushFrames(2));
+    expect(translateY("Echo")).toBe("50");
+    expect(frames).toHaveLength(0);
+  });
+
+  it("registers Segment while mounted and reports its state", () => {
+    const container = createContainer();
+    const onUpdate = vi.fn();
+    const onRender = vi.fn();
+
+    function Probe() {
+      const { active, progress } = useSegment("chapter");
+      return (
+        <span data-testid="probe">{active ? `in ${progress}` : "out"}</span>
+      );
+    }
+
+    function Page({ mounted }: { mounted: boolean }) {
+      return (
+        <PathFollowerProvider smooth={false} scrollContainer={container}>
+          <TestPath />
+          {mounted && (
+            <Segment id="chapter" start={0.25} end={0.75} onUpdate={onUpdate}>
+              <React.Profiler id="plain" onRender={onRender}>
+                <span>Plain</span>
+              </React.Profiler>
+            </Segment>
+          )}
+          <Segment id="rendered" start={0} end={0.6}>
+            {({ active, direction }) => (
+              <span data-testid="rendered">
+                {active ? `active ${direction}` : "idle"}
+              </span>
+            )}
+          </Segment>
+          <Probe />
+        </PathFollowerProvider>
+      );
+    }
+
+    const { getByTestId, rerender } = render(<Page mounted />);
+    act(() => flushFrames(1));
+    expect(getByTestId("probe")).toHaveTextContent("out");
+    expect(getByTestId("rendered")).toHaveTextContent("active 1");
+
+    container.scrollTop = 1000; // 50% scrolled
+    act(() => {
+      container.dispatchEvent(new Event("scroll"));
+      flushFrames(1);
+    });
+    expect(getByTestId("probe")).toHaveTextContent("in 0.5");
+    expect(onUpdate).toHaveBeenLastCalledWith({
+      active: true,
+      progress: 0.5,
+      direction: 1,
+    });
+    // Plain children follow through onUpdate without re-rendering
+    expect(onRender).toHaveBeenCalledTimes(1);
+
+    rerender(<Page mounted={false} />);
+    expect(getByTestId("probe")).toHaveTextContent("out");
+  });
+
+  it("nests Segments declared inside a Segment", () => {
+    const container = createContainer();
+    container.scrollTop = 750; // 37.5% scrolled
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    const page = (withScene: boolean) => (
+      <PathFollowerProvider smooth={false} scrollContainer={container}>
+        <TestPath />
+        <Segment id="chapter" start={0} end={0.5}>
+          {withScene && <Segment id="scene" start={0.5} end={1} />}
+        </Segment>
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>
+    );
+    const { rerender } = render(page(true));
+    act(() => flushFrames(1));
+
+    // The scene spans the second half of the chapter
+    const scene = ctx.getActiveSegments().find((s) => s.id === "scene");
+    expect([scene?.start, scene?.end]).toEqual([0.25, 0.5]);
+    expect(ctx.getActiveSegments().map((s) => s.id)).toEqual([
+      "chapter",
+      "scene",
+    ]);
+
+    rerender(page(false));
+    act(() => flushFrames(1));
+    expect(ctx.getActiveSegments().map((s) => s.id)).toEqual(["chapter"]);
+  });
+
+  it("resolves Segment length bounds against the path as it changes", () => {
+    const container = createContainer();
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    const { container: root } = render(
+      <PathFollowerProvider smooth={false} scrollContainer={container}>
+        <TestPath />
+        <Segment id="middle" start={{ length: 25 }} end={{ length: 75 }} />
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>,
+    );
+    const bounds = () =>
+      ctx.getActiveSegments().map((s) => [s.start, s.end])[0];
+
+    container.scrollTop = 1000; // 50% scrolled
+    act(() => {
+      container.dispatchEvent(new Event("scroll"));
+      flushFrames(1);
+    });
+    expect(bounds()![0]).toBeCloseTo(0.25);
+    expect(bounds()![1]).toBeCloseTo(0.75);
+
+    root.querySelector("path")!.setAttribute("d", "M 0 0 L 0 200");
+    container.scrollTop = 400; // 20% scrolled
+    act(() => {
+      container.dispatchEvent(new Event("scroll"));
+      flushFrames(1);
+    });
+    expect(bounds()![0]).toBeCloseTo(0.125);
+    expect(bounds()![1]).toBeCloseTo(0.375);
+  });
+
+  it("wakes for segments mounted or removed while asleep", () => {
+    const container = createContainer();
+    container.scrollTop = 1000; // 50% scrolled
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    const page = (mounted: boolean) => (
+      <PathFollowerProvider smooth={false} scrollContainer={container}>
+        <TestPath />
+        {mounted && <Segment id="late" start={0} end={0.5} weight={3} />}
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>
+    );
+    const { rerender } = render(page(false));
+    act(() => flushFrames(5));
+    expect(ctx.getLoopStats().sleeping).toBe(true);
+
+    rerender(page(true));
+    act(() => flushFrames(2));
+    expect(ctx.getActiveSegments().map((s) => s.id)).toEqual(["late"]);
+    // The late segment takes 3/4 of the scroll for half the path
+    expect(ctx.getState().pathProgress).toBeCloseTo(1 / 3);
+
+    rerender(page(false));
+    act(() => flushFrames(2));
+    expect(ctx.getActiveSegments()).toEqual([]);
+    expect(ctx.getState().pathProgress).toBeCloseTo(0.5);
+  });
+
+  it("wakes to drop a track unregistered while asleep", () => {
+    const container = createContainer();
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    const page = (mounted: boolean) => (
+      <PathFollowerProvider smooth={false} scrollContainer={container}>
+        <TestPath />
+        {mounted && <TestPath track="second" />}
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>
+    );
+    const { rerender } = render(page(true));
+    act(() => flushFrames(5));
+    expect(ctx.getLoopStats().sleeping).toBe(true);
+    expect(Object.keys(ctx.getState().tracks)).toContain("second");
+
+    rerender(page(false));
+    expect(ctx.getLoopStats().sleeping).toBe(false);
+    act(() => flushFrames(2));
+    expect(Object.keys(ctx.getState().tracks)).not.toContain("second");
+  });
+
+  it("wakes when the scroll container ref changes while asleep", () => {
+    const second = createContainer();
+    second.scrollTop = 1000; // 50% scrolled
+    const ref = { current: createContainer() };
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    const page = () => (
+      <PathFollowerProvider smooth={false} scrollContainer={ref}>
+        <TestPath />
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>
+    );
+    const { rerender } = render(page());
+    act(() => flushFrames(5));
+    expect(ctx.getLoopStats().sleeping).toBe(true);
+
+    ref.current = second;
+    rerender(page());
+    act(() => flushFrames(1));
+    expect(ctx.getState().scrollProgress).toBeCloseTo(0.5);
+  });
+
+  it("wakes when a segment's target element resizes", () => {
+    const observers: ResizeObserverCallback[] = [];
+    const observed: Element[] = [];
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        constructor(callback: ResizeObserverCallback) {
+          observers.push(callback);
+        }
+        observe(element: Element) {
+          observed.push(element);
+        }
+        unobserve() {}
+        disconnect() {}
+      },
+    );
+    const container = createContainer();
+    container.getBoundingClientRect = () =>
+      ({ top: 0, left: 0, height: 1000, width: 500 }) as DOMRect;
+    const section = document.createElement("div");
+    let rect = { top: 1500, left: 0, height: 500, width: 500 };
+    section.getBoundingClientRect = () => rect as DOMRect;
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    render(
+      <PathFollowerProvider smooth={false} scrollContainer={container}>
+        <TestPath />
+        <Segment id="section" target={section} />
+        <StatsProbe onReady={(c) => (ctx = c)} />
+      </PathFollowerProvider>,
+    );
+    act(() => flushFrames(5));
+    expect(observed).toContain(section);
+    expect(ctx.isSegmentActive("section")).toBe(false);
+    expect(ctx.getLoopStats().sleeping).toBe(true);
+
+    // Content above grows, so the section now spans the viewport center
+    rect = { top: 200, left: 0, height: 1000, width: 500 };
+    act(() => {
+      observers.forEach((callback) => callback([], {} as ResizeObserver));
+      flushFrames(1);
+    });
+    expect(ctx.isSegmentActive("section")).toBe(true);
+  });
+
+  it("frames ScrollingPath with the camera prop", () => {
+    const { container } = render(
+      <PathFollowerProvider initialViewport={{ width: 800, height: 800 }}>
+        <ScrollingPath
+          path="M 200 0 L 200 2000"
+          height="500vh"
+          viewBox={[400, 2000]}
+          camera={{ mode: "fixed", zoom: 2 }}
+        />
+      </PathFollowerProvider>,
+    );
+
+    const svg = container.querySelector("svg")!;
+    expect(svg.getAttribute("viewBox")).toBe("-300 500 1000 1000");
+  });
+
+  it("jumps the ScrollingPath camera when motion is reduced", () => {
+    stubScreenCTM();
+    const container = createContainer();
+    const { container: root } = render(
+      <PathFollowerProvider
+        smooth={false}
+        scrollContainer={container}
+        reducedMotion="always"
+        reducedMotionFallback="instant"
+      >
+        <ScrollingPath
+          path="M 200 0 L 200 2000"
+          height="500vh"
+          viewBox={[400, 2000]}
+          camera={{
+            mode: "follow-point",
+            smoothing: { type: "exponential", halfLife: 1000 },
+          }}
+        />
+      </PathFollowerProvider>,
+    );
+    act(() => flushFrames(2));
+
+    container.scrollTop = 1000; // 50% scrolled
+    act(() => {
+      container.dispatchEvent(new Event("scroll"));
+      flushFrames(1);
+    });
+    const [, y, , height] = root
+      .querySelector("svg")!
+      .getAttribute("viewBox")!
+      .split(" ")
+      .map(Number);
+    expect(y + height / 2).toBeCloseTo(1000);
+    expect(frames).toHaveLength(0);
+  });
+
+  it("fits the camera to the deepest active segment where it is drawn", () => {
+    stubScreenCTM();
+    const container = createContainer();
+    const { container: root } = render(
+      <PathFollowerProvider
+        smooth={false}
+        scrollContainer={container}
+        easing="easeInQuad"
+        segments={[
+          {
+            id: "outer",
+            start: 0,
+            end: 1,
+            children: [{ id: "inner", start: 0.5, end: 1 }],
+          },
+        ]}
+      >
+        <ScrollingPath
+          path="M 200 0 L 200 2000"
+          height="500vh"
+          viewBox={[400, 2000]}
+          camera="fit-segment"
+        />
+      </PathFollowerProvider>,
+    );
+    act(() => flushFrames(2));
+
+    container.scrollTop = 1500; // 75% scrolled, inside "inner"
+    act(() => {
+      container.dispatchEvent(new Event("scroll"));
+      flushFrames(1);
+    });
+    const [, y, , height] = root
+      .querySelector("svg")!
+      .getAttribute("viewBox")!
+      .split(" ")
+      .map(Number);
+    // "inner" is drawn from eased progress 0.25 to 1
+    expect(y + height / 2).toBeCloseTo(1250);
+  });
+
+  it("reveals ScrollingPath up to the follower", () => {
+    const { container } = render(
+      <PathFollowerProvider initialProgress={0.25}>
+        <ScrollingPath
+          path="M 0 0 L 0 1000"
+          height="500vh"
+          reveal={{ ahead: { opacity: 0.1 } }}
+        />
+      </PathFollowerProvider>,
+    );
+
+    const [revealMask, aheadMask] = container.querySelectorAll("mask");
+    const drawn = revealMask.querySelector("path")!;
+    expect(drawn).toHaveAttribute("pathLength", "1000");
+    expect(drawn).toHaveAttribute("stroke-dasharray", "250 1001");
+    expect(drawn).toHaveAttribute("stroke-dashoffset", "0");
+    const ahead = aheadMask.querySelector("path")!;
+    expect(ahead).toHaveAttribute("pathLength", "1000");
+    expect(ahead).toHaveAttribute("stroke-dashoffset", "-250");
+
+    // Glow and main path are masked; the dash pattern is kept
+    const group = container.querySelector(`g[mask="url(#${revealMask.id})"]`);
+    expect(group?.querySelector("path[stroke-dasharray='15 8']")).not.toBe(
+      null,
+    );
+  });
+
+  it("scopes ScrollingPath def ids per instance", () => {
+    const { container } = render(
+      <PathFollowerProvider>
+        <ScrollingPath path="M 0 0 L 0 100" height="100vh" track="a" />
+        <ScrollingPath path="M 0 0 L 0 100" height="100vh" track="b" />
+      </PathFollowerProvider>,
+    );
+
+    const gradients = container.querySelectorAll("linearGradient");
+    expect(gradients[0].id).not.toBe(gradients[1].id);
+    container.querySelectorAll("svg").forEach((svg, i) => {
+      const main = svg.querySelector("g > path:last-child")!;
+      expect(main).toHaveAttribute("stroke", `url(#${gradients[i].id})`);
+      const glow = svg.querySelector("filter")!;
+      expect(svg.querySelector(`[filter="url(#${glow.id})"]`)).not.toBe(null);
+    });
+  });
+
+  it("configures ScrollingPath gradient, glow and custom defs", () => {
+    const { container } = render(
+      <PathFollowerProvider>
+        <ScrollingPath
+          path="M 0 0 L 100 0"
+          height="100vh"
+          gradient={{ stops: ["red", "blue"], direction: "horizontal" }}
+          glowFilter={{ blur: 5, color: "gold", opacity: 0.4 }}
+          renderDefs={(ids) => <pattern id={`${ids.prefix}-dots`} />}
+          stroke={(ids) => `url(#${ids.prefix}-dots)`}
+        />
+      </PathFollowerProvider>,
+    );
+
+    const gradient = container.querySelector("linearGradient")!;
+    expect(gradient).toHaveAttribute("x1", "0%");
+    expect(gradient).toHaveAttribute("x2", "100%");
+    const stops = gradient.querySelectorAll("stop");
+    expect(stops[1]).toHaveAttribute("offset", "100%");
+    expect(stops[1]).toHaveAttribute("stop-color", "blue");
+
+    expect(container.querySelector("feGaussianBlur")).toHaveAttribute(
+      "stdDeviation",
+      "5",
+    );
+    const glow = container.querySelector("path[filter]")!;
+    expect(glow).toHaveAttribute("stroke", "gold");
+    expect(glow).toHaveAttribute("opacity", "0.4");
+
+    const pattern = container.querySelector("pattern")!;
+    const main = container.querySelector("g > path:last-child")!;
+    expect(main).toHaveAttribute("stroke", `url(#${pattern.id})`);
+  });
+
+  it("primes ScrollingPath tracks without writing state in render", () => {
+    stubScreenCTM();
+    let ctx!: ReturnType<typeof usePathFollowerRef>;
+    const page = (mounted: boolean) => (
+      <React.StrictMode>
+        <PathFollowerProvider initialProgress={0.5}>
+          {mounted && (
+            <ScrollingPath
+              path="M 200 0 L 200 2000"
+              height="500vh"
+              viewBox={[400, 2000]}
+              track="main"
+            />
+          )}
+          <StatsProbe onReady={(c) => (ctx = c)} />
+        </PathFollowerProvider>
+      </React.StrictMode>
+    );
+    const { rerender } = render(page(true));
+    expect(ctx.getState().tracks.main.position).toEqual({ x: 200, y: 1000 });
+
+    // Unmounting before the first measurement takes the primed frame along
+    rerender(page(false));
+    expect(ctx.getState().tracks.main).toBeUndefined();
+  });
+
+  it("positions PathMarker on the path with active and passed states", () => {
+    stubScreenCTM();
+    const { container } = render(
+      <PathFollowerProvider
+        initialProgress={0.5}
+        segments={[{ id: "intro", start: 0.3, end: 0.6 }]}
+      >
+        <ScrollingPath path="M 0 0 L 100 0" height="100vh">
+          <PathMarker at={0.4} offset={10} rotate rotationOffset={90}>
+            {({ passed }) => <text>{passed ? "passed" : "ahead"}</text>}
+          </PathMarker>
+          <PathMarker at={0.8} segment="intro" />
+        </ScrollingPath>
+      </PathFollowerProvider>,
+    );
+    act(() => flushFrames(1));
+
+    const [reached, ahead] = container.querySelectorAll("[data-path-marker]");
+    // Offset along the normal, which points right of travel
+    expect(reached).toHaveAttribute("transform", "translate(40 10) rotate(90)");
+    expect(reached).toHaveAttribute("data-passed", "true");
+    expect(reached).toHaveAttribute("data-active", "true");
+    expect(reached).toHaveTextContent("passed");
+
+    expect(ahead).toHaveAttribute("data-passed", "false");
+    expect(ahead).toHaveAttribute("data-active", "true");
+  });
+
+  it("matches PathMarker segments through the easing", () => {
+    stubScreenCTM();
+    const { container } = render(
+      <PathFollowerProvider
+        initialProgress={0.5}
+        easing="easeInQuad"
+        segments={[{ id: "middle", start: 0.4, end: 0.6 }]}
+      >
+        <ScrollingPath path="M 0 0 L 100 0" height="100vh">
+          {/* Eased 0.25 is path progress 0.5 */}
+          <PathMarker at={0.25} />
+          <PathMarker at={0.5} />
+        </ScrollingPath>
+      </PathFollowerProvider>,
+    );
+    act(() => flushFrames(1));
+
+    const [inside, outside] = container.querySelectorAll("[data-path-marker]");
+    expect(inside).toHaveAttribute("data-active", "true");
+    expect(outside).toHaveAttribute("data-active", "false");
+  });
+
+  it("draws FollowerTrail without re-renders and fades it at rest", () => {
+    stubScreenCTM();
+    let now = 1000;
+    vi.spyOn(performance, "now").mockImplementation(() => now);
+    const container = createContainer();
+    const onRender = vi.fn();
+    const { container: root } = render(
+      <PathFollowerProvider smooth={false} scrollContainer={container}>
+        <ScrollingPath path="M 0 0 L 0 1000" height="100vh">
+          <React.Profiler id="trail" onRender={onRender}>
+            <FollowerTrail length={0.1} segments={4} fadeDuration={200} />
+          </React.Profiler>
+        </ScrollingPath>
+      </PathFollowerProvider>,
+    );
+    act(() => flushFrames(1));
+    const trail = root.querySelector("[data-follower-trail]")!;
+    expect(trail.querySelectorAll("path")).toHaveLength(4);
+    expect(trail).toHaveAttribute("opacity", "0");
+    const renders = onRender.mock.calls.length;
+
+    now = 2000;
+    container.scrollTop = 1000; // 50% scrolled
+    act(() => {
+      container.dispatchEvent(new Event("scroll"));
+      flushFrames(1);
+    });
+    expect(trail).toHaveAttribute("opacity", "1");
+    // Tapers from the follower back toward where the motion began
+    expect(trail.querySelector("path")!.getAttribute("d")).toBe(
+      "M -3 500 L -2.25 475 L 2.25 475 L 3 500 Z",
+    );
+    expect(onRender).toHaveBeenCalledTimes(renders);
+
+    // Resting: the trail fades out over fadeDuration, then stops its loop
+    now = 2100;
+    act(() => flushFrames(1));
+    now = 2200;
+    act(() => flushFrames(1));
+    expect(trail).toHaveAttribute("opacity", "0.5");
+    now = 2400;
+    act(() => flushFrames(1));
+    expect(trail).toHaveAttribute("opacity", "0");
+    expect(frames).toHaveLength(0);
+  });
+
+  it("throws when useScrollingPath is used outside a ScrollingPath", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    function Orphan() {
+      useScrollingPath();
+      return null;
+    }
+    expect(() => render(<Orphan />)).toThrow(
+      "useScrollingPath must be used within a ScrollingPath",
+    );
+    consoleError.mockRestore();
+  });
+
+  it("places a follower on the static frame before the first paint", async () => {
+    const page = (
+      <PathFollowerProvider
+        initialProgress={0.5}
+        initialViewport={{ width: 800, height: 800 }}
+      >
+        <ScrollingPath
+          path="M 200 0 L 200 2000"
+          height="500vh"
+          viewBox={[400, 2000]}
+        />
+        <FixedFollower autoRotate={false}>Follower</FixedFollower>
+      </PathFollowerProvider>
+    );
+    const container = document.createElement("div");
+    container.innerHTML = renderToString(page);
+    document.body.appendChild(container);
+
+    let root!: ReturnType<typeof hydrateRoot>;
+    await act(async () => {
+      root = hydrateRoot(container, page);
+    });
+
+    // Halfway down the path, without a frame having run
+    const follower = Array.from(container.querySelectorAll("div")).find(
+      (div) => div.textContent === "Follower",
+    );
+    expect(follower?.style.transform).toContain("translate3d(400px, 400px, 0)");
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it("hydrates server markup without mismatches", async () => {
+    const page = (
+      <PathFollowerProvider
+        initialProgress={0.5}
+        initialViewport={{ width: 800, height: 800 }}
+      >
+        <ScrollingPath path="M 200 0 L 200 2000" height="500vh" />
+        <FixedFollower>Follower</FixedFollower>
+      </PathFollowerProvider>
+    );
+    const container = document.createElement("div");
+    container.innerHTML = renderToString(page);
+    document.body.appendChild(container);
+
+    const onRecoverableError = vi.fn();
+    const consoleError = vi.spyOn(console, "error");
+    let root!: ReturnType<typeof hydrateRoot>;
+    await act(async () => {
+      root = hydrateRoot(container, page, { onRecoverableError });
+    });
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(consoleError).not.toHaveBeenCalled();
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  describe("navigation", () => {
+    function renderNavigation(container: HTMLElement) {
+      let ctx!: ReturnType<typeof usePathFollowerRef>;
+      render(
+        <PathFollowerProvider
+          smooth={false}
+          scrollContainer={container}
+          segments={[{ id: "chapter", start: 0.2, end: 0.6 }]}
+        >
+          <TestPath />
+          <StatsProbe onReady={(c) => (ctx = c)} />
+        </PathFollowerProvider>,
+      );
+      return ctx;
+    }
+
+    it("scrolls to a path progress", async () => {
+      const container = createContainer();
+      const ctx = renderNavigation(container);
+
+      await expect(ctx.scrollToProgress(0.75, { duration: 0 })).resolves.toBe(
+        true,
+      );
+      expect(container.scrollTop).toBeCloseTo(1500);
+    });
+
+    it("scrolls to a segment with alignment", async () => {
+      const container = createContainer();
+      const ctx = renderNavigation(container);
+
+      await ctx.scrollToSegment("chapter", { duration: 0 });
+      expect(container.scrollTop).toBeCloseTo(400);
+      await ctx.scrollToSegment("chapter", { align: "center", duration: 0 });
+      expect(container.scrollTop).toBeCloseTo(800);
+      await ctx.scrollToSegment("chapter", { align: "end", duration: 0 });
+      expect(container.scrollTop).toBeCloseTo(1200);
+
+      await expect(ctx.scrollToSegment("missing")).resolves.toBe(false);
+    });
+
+    it("scrolls to the nearest point on the path", async () => {
+      const container = createContainer();
+      const ctx = renderNavigation(container);
+
+      await ctx.scrollToPoint(10, 25, { duration: 0 });
+      expect(container.scrollTop).toBeCloseTo(500);
+      await expect(ctx.scrollToPoint(0, 0, { track: "missing" })).resolves.toBe(
+        false,
+      );
+    });
+
+    it("cancels on user wheel input", async () => {
+      const container = createContainer();
+      const ctx = renderNavigation(container);
+
+      const promise = ctx.scrollToProgress(1, { duration: 500 });
+      container.dispatchEvent(new Event("wheel"));
+      await expect(promise).resolves.toBe(false);
+    });
+
+    it("cancels a running animation on unmount", async () => {
+      const container = createContainer();
+      let ctx!: ReturnType<typeof usePathFollowerRef>;
+      const { unmount } = render(
+        <PathFollowerProvider smooth={false} scrollContainer={container}>
+          <TestPath />
+          <StatsProbe onReady={(c) => (ctx = c)} />
+        </PathFollowerProvider>,
+      );
+
+      const promise = ctx.scrollToProgress(1, { duration: 500 });
+      unmount();
+      await expect(promise).resolves.toBe(false);
+
+      // Later frames leave the scroll position alone
+      vi.spyOn(performance, "now").mockReturnValue(performance.now() + 1000);
+      flushFrames(2);
+      expect(container.scrollTop).toBe(0);
+    });
+
+    it("leaves a programmatic scroll in place under mandatory snap", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      const container = createContainer();
+      let ctx!: ReturnType<typeof usePathFollowerRef>;
+      render(
+        <PathFollowerProvider
+          smooth={false}
+          scrollContainer={container}
+          segments={createSegmentPresets.equal(2)}
+          snap={{ mode: "mandatory", duration: 0 }}
+        >
+          <TestPath />
+          <StatsProbe onReady={(c) => (ctx = c)} />
+        </PathFollowerProvider>,
+      );
+
+      await ctx.scrollToProgress(0.37, { duration: 0 });
+      // The jump's scroll event arrives after the animation has finished
+      container.dispatchEvent(new Event("scroll"));
+      vi.advanceTimersByTime(500);
+      expect(container.scrollTop).toBeCloseTo(740);
+
+      // Scrolling away from it snaps again
+      container.scrollTop = 900;
+      container.dispatchEvent(new Event("scroll"));
+      vi.advanceTimersByTime(500);
+      expect(container.scrollTop).toBeCloseTo(1000);
+    });
+
+    describe("snap", () => {
+      function renderSnap(container: HTMLElement, snap: SnapConfig) {
+        let ctx!: ReturnType<typeof usePathFollowerRef>;
+        const result = render(
+          <PathFollowerProvider
+            smooth={false}
+            scrollContainer={container}
+            segments={createSegmentPresets.equal(2)}
+            snap={snap}
+          >
+            <TestPath />
+            <StatsProbe onReady={(c) => (ctx = c)} />
+          </PathFollowerProvider>,
+        );
+        return { ctx, unmount: result.unmount };
+      }
+
+      function scrollTo(container: HTMLElement, top: number) {
+        container.scrollTop = top;
+        container.dispatchEvent(new Event("scroll"));
+      }
+
+      beforeEach(() => {
+        vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      });
+
+      it("glides to the nearest point after the settle delay", () => {
+        const now = vi.spyOn(performance, "now").mockReturnValue(1000);
+        const container = createContainer();
+        renderSnap(container, { duration: 300, easing: "linear" });
+
+        scrollTo(container, 900);
+        vi.advanceTimersByTime(149);
+        flushFrames(1);
+        expect(container.scrollTop).toBe(900);
+
+        vi.advanceTimersByTime(1);
+        now.mockReturnValue(1150);
+        flushFrames(1);
+        expect(container.scrollTop).toBeCloseTo(950);
+        now.mockReturnValue(1300);
+        flushFrames(1);
+        expect(container.scrollTop).toBeCloseTo(1000);
+      });
+
+      it("ignores far points under proximity but not under mandatory", () => {
+        const modes = [
+          ["proximity", 700],
+          ["mandatory", 1000],
+        ] as const;
+        for (const [mode, expected] of modes) {
+          const container = createContainer();
+          const { unmount } = renderSnap(container, { mode, duration: 0 });
+          scrollTo(container, 700);
+          vi.advanceTimersByTime(500);
+          expect(container.scrollTop).toBeCloseTo(expected);
+          unmount();
+        }
+      });
+
+      it("cancels the glide on touch, wheel or pointer input", () => {
+        for (const type of ["touchstart", "wheel", "pointerdown"]) {
+          const now = vi.spyOn(performance, "now").mockReturnValue(1000);
+          const container = createContainer();
+          const { unmount } = renderSnap(container, {
+            duration: 300,
+            easing: "linear",
+          });
+
+          scrollTo(container, 900);
+          vi.advanceTimersByTime(150);
+          now.mockReturnValue(1150);
+          flushFrames(1);
+          container.dispatchEvent(new Event(type));
+          now.mockReturnValue(1300);
+          flushFrames(1);
+          expect(container.scrollTop).toBeCloseTo(950);
+          unmount();
+        }
+      });
+
+      it("leaves the navigated progress alone", async () => {
+        const container = createContainer();
+        const { ctx } = renderSnap(container, { duration: 0 });
+
+        // Within the threshold of the point at 0.5
+        await ctx.scrollToProgress(0.48, { duration: 0 });
+        container.dispatchEvent(new Event("scroll"));
+        vi.advanceTimersByTime(500);
+        expect(container.scrollTop).toBeCloseTo(960);
+      });
+    });
+
+    it("keeps navigating when snap is turned off mid-animation", async () => {
+      const container = createContainer();
+      let ctx!: ReturnType<typeof usePathFollowerRef>;
+      const page = (snap: boolean) => (
+        <PathFollowerProvider
+          smooth={false}
+          scrollContainer={container}
+          snap={snap ? { mode: "mandatory" } : undefined}
+        >
+          <TestPath />
+          <StatsProbe onReady={(c) => (ctx = c)} />
+        </PathFollowerProvider>
+      );
+      const { rerender } = render(page(true));
+
+      const promise = ctx.scrollToProgress(1, { duration: 100 });
+      rerender(page(false));
+      vi.spyOn(performance, "now").mockReturnValue(performance.now() + 200);
+      flushFrames(1);
+      await expect(promise).resolves.toBe(true);
+    });
+  });
+});
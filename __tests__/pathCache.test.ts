@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { getPathSampler, clearPathCache } from "../pathCache";
+
+describe("pathCache", () => {
+  beforeEach(() => {
+    clearPathCache();
+  });
+
+  it("returns the same sampler for the same path data", () => {
+    const a = getPathSampler("M 0 0 L 100 0");
+    const b = getPathSampler("M 0 0 L 100 0");
+    expect(a).toBe(b);
+  });
+
+  it("keys SVGPathElement sources by their path data", () => {
+    const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
+    path.setAttribute("d", "M 0 0 L 100 0");
+
+    const fromElement = getPathSampler(path);
+    expect(fromElement).toBe(getPathSampler("M 0 0 L 100 0"));
+    expect(fromElement.pointAt(0.5)).toEqual({ x: 50, y: 0 });
+  });
+
+  it("re-measures elements whose path data changed", () => {
+    const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
+    path.setAttribute("d", "M 0 0 L 100 0");
+    const first = getPathSampler(path);
+
+    path.setAttribute("d", "M 0 0 L 200 0");
+    const second = getPathSampler(path);
+
+    expect(second).not.toBe(first);
+    expect(second.length).toBe(200);
+  });
+
+  it("evicts the least recently used path", () => {
+    const first = getPathSampler("M 0 0 L 1 0");
+    const second = getPathSampler("M 0 0 L 2 0");
+
+    for (let i = 3; i <= 65; i++) {
+      // Keep the first path warm
+      getPathSampler("M 0 0 L 1 0");
+      getPathSampler(`M 0 0 L ${i} 0`);
+    }
+
+    expect(getPathSampler("M 0 0 L 1 0")).toBe(first);
+    expect(getPathSampler("M 0 0 L 2 0")).not.toBe(second);
+  });
+
+  it("clears all cached samplers", () => {
+    const before = getPathSampler("M 0 0 L 100 0");
+    clearPathCache();
+    expect(getPathSampler("M 0 0 L 100 0")).not.toBe(before);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { createPathSampler, parsePathData } from "../pathEngine";
+
+describe("pathEngine", () => {
+  describe("parsePathData", () => {
+    it("parses absolute and relative commands", () => {
+      const commands = parsePathData("M 10 20 l 5 5 H 40 v -10 Z");
+      expect(commands.map((c) => c.type)).toEqual(["M", "L", "H", "V", "Z"]);
+      expect(commands[1].relative).toBe(true);
+      expect(commands[2].relative).toBe(false);
+      expect(commands[1].values).toEqual([5, 5]);
+    });
+
+    it("expands implicit repeats and turns repeated movetos into linetos", () => {
+      const commands = parsePathData("M0 0 10 10 20 0 L 30 30 40 40");
+      expect(commands.map((c) => c.type)).toEqual(["M", "L", "L", "L", "L"]);
+    });
+
+    it("handles compact number syntax", () => {
+      const commands = parsePathData("M.5.5L-1e1,2-3.5.25");
+      expect(commands[0].values).toEqual([0.5, 0.5]);
+      expect(commands[1].values).toEqual([-10, 2]);
+      expect(commands[2].values).toEqual([-3.5, 0.25]);
+    });
+
+    it("parses compact arc flags", () => {
+      const commands = parsePathData("M0 0a5 5 0 0110 0");
+      expect(commands[1]).toEqual({
+        type: "A",
+        relative: true,
+        values: [5, 5, 0, 0, 1, 10, 0],
+      });
+    });
+
+    it("stops at the first error and keeps earlier commands", () => {
+      const commands = parsePathData("M 0 0 L 10 10 L 20 # 30");
+      expect(commands).toHaveLength(2);
+    });
+
+    it("requires path data to start with a moveto", () => {
+      expect(parsePathData("L 10 10")).toEqual([]);
+    });
+  });
+
+  describe("createPathSampler", () => {
+    it("measures straight lines", () => {
+      const sampler = createPathSampler("M 0 0 H 100 V 100");
+      expect(sampler.length).toBe(200);
+      expect(sampler.pointAt(0)).toEqual({ x: 0, y: 0 });
+      expect(sampler.pointAt(0.25)).toEqual({ x: 50, y: 0 });
+      expect(sampler.pointAt(0.75)).toEqual({ x: 100, y: 50 });
+      expect(sampler.pointAt(1)).toEqual({ x: 100, y: 100 });
+    });
+
+    it("clamps progress to 0-1", () => {
+      const sampler = createPathSampler("M 0 0 L 100 0");
+      expect(sampler.pointAt(-1)).toEqual({ x: 0, y: 0 });
+      expect(sampler.pointAt(2)).toEqual({ x: 100, y: 0 });
+    });
+
+    it("closes subpaths with Z", () => {
+      const sampler = createPathSampler("M 0 0 h 10 v 10 h -10 z");
+      expect(sampler.length).toBe(40);
+      expect(sampler.pointAt(1)).toEqual({ x: 0, y: 0 });
+    });
+
+    it("does not count moveto jumps toward the length", () => {
+      const sampler = createPathSampler("M 0 0 L 10 0 M 100 100 L 110 100");
+      expect(sampler.length).toBe(20);
+      expect(sampler.pointAt(0.75)).toEqual({ x: 105, y: 100 });
+    });
+
+    it("measures arcs by arc length", () => {
+      const sampler = createPathSampler("M 0 0 A 50 50 0 0 1 100 0");
+      expect(sampler.length).toBeCloseTo(Math.PI * 50, 0);
+      const mid = sampler.pointAt(0.5);
+      expect(mid.x).toBeCloseTo(50, 1);
+      expect(mid.y).toBeCloseTo(-50, 1);
+    });
+
+    it("reflects control points for S and T", () => {
+      const explicit = createPathSampler(
+        "M 0 0 C 0 50 50 50 50 0 C 50 -50 100 -50 100 0",
+      );
+      const shorthand = createPathSampler(
+        "M 0 0 C 0 50 50 50 50 0 S 100 -50 100 0",
+      );
+      expect(shorthand.length).toBeCloseTo(explicit.length, 6);
+
+      const quad = createPathSampler("M 0 0 Q 25 50 50 0 Q 75 -50 100 0");
+      const quadShorthand = createPathSampler("M 0 0 Q 25 50 50 0 T 100 0");
+      expect(quadShorthand.length).toBeCloseTo(quad.length, 6);
+    });
+
+    it("returns unit tangents and normals", () => {
+      const sampler = createPathSampler("M 0 0 L 100 0 L 100 100");
+      expect(sampler.tangentAt(0.25)).toEqual({ x: 1, y: 0 });
+      expect(sampler.tangentAt(0.75)).toEqual({ x: 0, y: 1 });
+      const normal = sampler.normalAt(0.25);
+      expect(normal.x).toBeCloseTo(0);
+      expect(normal.y).toBe(1);
+    });
+
+    it("finds the progress of the nearest point", () => {
+      const sampler = createPathSampler("M 0 0 L 100 0 L 100 100");
+      expect(sampler.nearestProgress(25, -10)).toBeCloseTo(0.125, 3);
+      expect(sampler.nearestProgress(150, 50)).toBeCloseTo(0.75, 3);
+      expect(sampler.nearestProgress(-50, -50)).toBeCloseTo(0, 3);
+    });
+
+    it("finds the nearest point on curves", () => {
+      const sampler = createPathSampler("M 0 0 A 50 50 0 0 1 100 0");
+      const t = sampler.nearestProgress(50, -80);
+      expect(t).toBeCloseTo(0.5, 2);
+    });
+
+    it("finds the progress at command end points", () => {
+      const sampler = createPathSampler(
+        "M 0 0 L 100 0 A 50 50 0 0 1 100 100 Z",
+      );
+      expect(sampler.vertexProgress(0)).toBe(0);
+      expect(sampler.vertexProgress(1)).toBeCloseTo(100 / sampler.length);
+      // An arc split into several curves still counts as one command
+      const closed = sampler.vertexProgress(2);
+      expect(sampler.pointAt(closed).x).toBeCloseTo(100);
+      expect(sampler.pointAt(closed).y).toBeCloseTo(100);
+      expect(sampler.vertexProgress(3)).toBe(1);
+      expect(sampler.vertexProgress(99)).toBe(1);
+    });
+
+    it("handles curves with coincident control points", () => {
+      const sampler = createPathSampler("M 0 0 C 0 0 100 0 100 0");
+      expect(sampler.tangentAt(0)).toEqual({ x: 1, y: 0 });
+    });
+
+    it("handles empty path data", () => {
+      const sampler = createPathSampler("");
+      expect(sampler.length).toBe(0);
+      expect(sampler.pointAt(0.5)).toEqual({ x: 0, y: 0 });
+      expect(sampler.tangentAt(0.5)).toEqual({ x: 1, y: 0 });
+    });
+
+    it("returns the moveto point for a path without segments", () => {
+      const sampler = createPathSampler("M 10 20");
+      expect(sampler.pointAt(0.5)).toEqual({ x: 10, y: 20 });
+    });
+  });
+});
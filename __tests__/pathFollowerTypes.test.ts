@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { DEFAULT_PATH_FOLLOWER_STATE } from "../pathFollowerTypes";
+import {
+  DEFAULT_PATH_FOLLOWER_STATE,
+  DEFAULT_TRACK_ID,
+} from "../pathFollowerTypes";
 
 describe("pathFollowerTypes", () => {
   describe("DEFAULT_PATH_FOLLOWER_STATE", () => {
@@ -15,6 +18,7 @@ describe("pathFollowerTypes", () => {
       expect(DEFAULT_PATH_FOLLOWER_STATE.angle).toBe(0);
       expect(DEFAULT_PATH_FOLLOWER_STATE.direction).toBe(1);
       expect(DEFAULT_PATH_FOLLOWER_STATE.velocity).toBe(0);
+      expect(DEFAULT_PATH_FOLLOWER_STATE.signedVelocity).toBe(0);
     });
 
     it("has viewport dimensions", () => {
@@ -22,10 +26,20 @@ describe("pathFollowerTypes", () => {
       expect(DEFAULT_PATH_FOLLOWER_STATE.viewport).toHaveProperty("height");
     });
 
+    it("starts without registered tracks", () => {
+      expect(DEFAULT_PATH_FOLLOWER_STATE.tracks).toEqual({});
+    });
+
     it("is immutable reference", () => {
       const state1 = DEFAULT_PATH_FOLLOWER_STATE;
       const state2 = DEFAULT_PATH_FOLLOWER_STATE;
       expect(state1).toBe(state2);
     });
   });
+
+  describe("DEFAULT_TRACK_ID", () => {
+    it('is "default"', () => {
+      expect(DEFAULT_TRACK_ID).toBe("default");
+    });
+  });
 });
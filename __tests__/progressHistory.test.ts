@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { ProgressHistory } from "../progressHistory";
+
+describe("ProgressHistory", () => {
+  it("interpolates between samples", () => {
+    const history = new ProgressHistory();
+    history.push(0, 0);
+    history.push(50, 0.5);
+    expect(history.sample(25)).toBeCloseTo(0.25);
+    expect(history.sample(-10)).toBe(0);
+    expect(history.sample(100)).toBe(0.5);
+  });
+
+  it("holds the last value across gaps", () => {
+    const history = new ProgressHistory();
+    history.push(0, 0.2);
+    history.push(1000, 0.6);
+    // Progress held still until just before the new sample
+    expect(history.sample(500)).toBe(0.2);
+    expect(history.sample(1000)).toBe(0.6);
+  });
+
+  it("prunes samples it can no longer read", () => {
+    const history = new ProgressHistory();
+    history.push(0, 0);
+    history.push(20, 0.2);
+    history.push(40, 0.4);
+    history.prune(30);
+    expect(history.sample(30)).toBeCloseTo(0.3);
+    expect(history.sample(0)).toBe(0.2);
+  });
+
+  it("settles once reads reach the latest sample", () => {
+    const history = new ProgressHistory();
+    expect(history.isSettled(0)).toBe(true);
+    history.push(0, 0);
+    history.push(20, 0.2);
+    expect(history.isSettled(10)).toBe(false);
+    expect(history.isSettled(20)).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolveRevealConfig,
+  getStrokeRange,
+  getRevealStrokes,
+  getAheadStroke,
+} from "../reveal";
+
+describe("reveal", () => {
+  describe("resolveRevealConfig", () => {
+    it("accepts true or a config", () => {
+      expect(resolveRevealConfig(undefined)).toBe(null);
+      expect(resolveRevealConfig(false)).toBe(null);
+      expect(resolveRevealConfig(true)).toEqual({});
+      expect(resolveRevealConfig({ trail: 0.1 })).toEqual({ trail: 0.1 });
+    });
+  });
+
+  describe("getStrokeRange", () => {
+    it("draws a single dash between two lengths", () => {
+      expect(getStrokeRange(100, 20, 50)).toEqual({
+        strokeDasharray: "30 101",
+        strokeDashoffset: -20,
+      });
+    });
+
+    it("clamps to the path", () => {
+      expect(getStrokeRange(100, -10, 150)).toEqual({
+        strokeDasharray: "100 101",
+        strokeDashoffset: 0,
+      });
+      expect(getStrokeRange(100, 60, 40).strokeDasharray).toBe("0 101");
+    });
+  });
+
+  describe("getRevealStrokes", () => {
+    it("draws up to the follower without a trail", () => {
+      expect(getRevealStrokes(200, 0.25, {})).toEqual([
+        { strokeDasharray: "50 201", strokeDashoffset: 0, opacity: 1 },
+      ]);
+    });
+
+    it("fades the trail behind the follower", () => {
+      const strokes = getRevealStrokes(100, 0.5, { trail: 0.2, fadeTo: 0.5 });
+      expect(strokes).toHaveLength(9);
+
+      // Beyond the trail
+      expect(strokes[0]).toEqual({
+        strokeDasharray: "30 101",
+        strokeDashoffset: 0,
+        opacity: 0.5,
+      });
+      // Nearest the follower is fully opaque, fading toward the tail
+      expect(strokes[1].strokeDashoffset).toBeCloseTo(-47.5);
+      expect(strokes[1].opacity).toBe(1);
+      expect(strokes[8].strokeDashoffset).toBeCloseTo(-30);
+      expect(strokes[8].opacity).toBeLessThan(strokes[1].opacity);
+    });
+
+    it("keeps the stroke count stable near the start", () => {
+      expect(getRevealStrokes(100, 0, { trail: 0.2 })).toHaveLength(9);
+    });
+  });
+
+  describe("getAheadStroke", () => {
+    it("draws from the follower to the end", () => {
+      expect(getAheadStroke(100, 0.3)).toEqual({
+        strokeDasharray: "70 101",
+        strokeDashoffset: -30,
+        opacity: 1,
+      });
+    });
+  });
+});
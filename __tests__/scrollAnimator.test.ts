@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { animateScroll } from "../scrollAnimator";
+
+function createContainer() {
+  const container = document.createElement("div");
+  Object.defineProperties(container, {
+    scrollTop: { value: 0, writable: true },
+    scrollLeft: { value: 0, writable: true },
+    scrollHeight: { value: 3000, writable: true },
+    scrollWidth: { value: 500, writable: true },
+    clientHeight: { value: 1000, writable: true },
+    clientWidth: { value: 500, writable: true },
+  });
+  return container;
+}
+
+describe("animateScroll", () => {
+  let frames: FrameRequestCallback[] = [];
+  let now = 0;
+
+  const advance = (ms: number) => {
+    now += ms;
+    const pending = frames;
+    frames = [];
+    pending.forEach((cb) => cb(now));
+  };
+
+  beforeEach(() => {
+    frames = [];
+    now = 0;
+    vi.spyOn(performance, "now").mockImplementation(() => now);
+    vi.spyOn(window, "requestAnimationFrame").mockImplementation((cb) => {
+      frames.push(cb);
+      return frames.length;
+    });
+    vi.spyOn(window, "cancelAnimationFrame").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("animates to the target and resolves true", async () => {
+    const container = createContainer();
+    const { promise } = animateScroll(
+      container,
+      { top: 1000 },
+      { duration: 100, easing: "linear" },
+    );
+
+    advance(50);
+    expect(container.scrollTop).toBe(500);
+
+    advance(50);
+    expect(container.scrollTop).toBe(1000);
+    await expect(promise).resolves.toBe(true);
+  });
+
+  it("jumps immediately with zero duration", async () => {
+    const container = createContainer();
+    const { promise } = animateScroll(container, { top: 800 }, { duration: 0 });
+    expect(container.scrollTop).toBe(800);
+    await expect(promise).resolves.toBe(true);
+  });
+
+  it("cancels on user wheel input", async () => {
+    const container = createContainer();
+    const { promise } = animateScroll(
+      container,
+      { top: 1000 },
+      { duration: 100, easing: "linear" },
+    );
+
+    advance(50);
+    container.dispatchEvent(new Event("wheel"));
+    advance(50);
+
+    expect(container.scrollTop).toBe(500);
+    await expect(promise).resolves.toBe(false);
+  });
+
+  it("resolves false when cancelled from code", async () => {
+    const container = createContainer();
+    const animation = animateScroll(container, { left: 100 });
+    animation.cancel();
+    await expect(animation.promise).resolves.toBe(false);
+  });
+});
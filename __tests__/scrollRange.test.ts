@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseScrollEdge,
+  resolveScrollBoundary,
+  getScrollRangeProgress,
+  getScrollPositionForProgress,
+  getProgressAtScrollPosition,
+} from "../scrollRange";
+
+function createContainer(scrollTop: number, scrollLeft = 0) {
+  const container = document.createElement("div");
+  Object.defineProperties(container, {
+    scrollTop: { value: scrollTop, writable: true },
+    scrollLeft: { value: scrollLeft, writable: true },
+    scrollHeight: { value: 3000, writable: true },
+    scrollWidth: { value: 1500, writable: true },
+    clientHeight: { value: 1000, writable: true },
+    clientWidth: { value: 500, writable: true },
+  });
+  container.getBoundingClientRect = () =>
+    ({ top: 0, left: 0, height: 1000, width: 500 }) as DOMRect;
+  return container;
+}
+
+function createSection(top: number, height: number, left = 0) {
+  const section = document.createElement("div");
+  section.getBoundingClientRect = () =>
+    ({ top, left, height, width: 500 }) as DOMRect;
+  return section;
+}
+
+describe("scrollRange", () => {
+  describe("parseScrollEdge", () => {
+    it("parses element and viewport keywords", () => {
+      expect(parseScrollEdge("top bottom")).toEqual({
+        element: 0,
+        viewport: 1,
+      });
+      expect(parseScrollEdge("center center")).toEqual({
+        element: 0.5,
+        viewport: 0.5,
+      });
+    });
+
+    it("parses percentages", () => {
+      expect(parseScrollEdge("25% 75%")).toEqual({
+        element: 0.25,
+        viewport: 0.75,
+      });
+    });
+
+    it("uses one keyword for both sides", () => {
+      expect(parseScrollEdge("bottom")).toEqual({ element: 1, viewport: 1 });
+    });
+
+    it("accepts left/right as horizontal aliases", () => {
+      expect(parseScrollEdge("left right")).toEqual({
+        element: 0,
+        viewport: 1,
+      });
+    });
+
+    it('defaults to "top top"', () => {
+      expect(parseScrollEdge()).toEqual({ element: 0, viewport: 0 });
+    });
+  });
+
+  describe("resolveScrollBoundary", () => {
+    it("returns pixel values as-is", () => {
+      expect(resolveScrollBoundary(250, createContainer(0))).toBe(250);
+    });
+
+    it("resolves percentages of the maximum scroll", () => {
+      expect(resolveScrollBoundary("50%", createContainer(0))).toBe(1000);
+    });
+
+    it("resolves element edges against the viewport", () => {
+      // Section sits 1200px into the content while scrolled by 200px
+      const container = createContainer(200);
+      const section = createSection(1000, 800);
+
+      expect(
+        resolveScrollBoundary(
+          { target: section, edge: "top bottom" },
+          container,
+        ),
+      ).toBe(200);
+      expect(
+        resolveScrollBoundary(
+          { target: section, edge: "bottom top" },
+          container,
+        ),
+      ).toBe(2000);
+    });
+
+    it("resolves element edges horizontally", () => {
+      const container = createContainer(0, 100);
+      const section = createSection(0, 800, 600);
+      expect(
+        resolveScrollBoundary(
+          { target: section, edge: "left right" },
+          container,
+          "x",
+        ),
+      ).toBe(200);
+    });
+
+    it("unwraps refs and applies offsets", () => {
+      const container = createContainer(0);
+      const ref = { current: createSection(500, 500) };
+      expect(
+        resolveScrollBoundary(
+          { target: ref, edge: "top top", offset: -100 },
+          container,
+        ),
+      ).toBe(400);
+    });
+  });
+
+  describe("getScrollRangeProgress", () => {
+    it("defaults to whole-container progress", () => {
+      expect(getScrollRangeProgress(createContainer(1000))).toBe(0.5);
+    });
+
+    it("maps a custom range to 0-1", () => {
+      const range = { start: 500, end: 1500 };
+      expect(getScrollRangeProgress(createContainer(250), range)).toBe(0);
+      expect(getScrollRangeProgress(createContainer(1000), range)).toBe(0.5);
+      expect(getScrollRangeProgress(createContainer(1800), range)).toBe(1);
+    });
+
+    it("uses horizontal scroll for the x axis", () => {
+      expect(getScrollRangeProgress(createContainer(0, 250), {}, "x")).toBe(
+        0.25,
+      );
+    });
+
+    it("weights both axes by their scroll distance", () => {
+      // 1000px of horizontal travel, 2000px of vertical travel
+      expect(
+        getScrollRangeProgress(createContainer(500, 1000), {}, "both"),
+      ).toBe(0.5);
+    });
+
+    it("returns 0 for an empty range", () => {
+      const range = { start: 500, end: 500 };
+      expect(getScrollRangeProgress(createContainer(600), range)).toBe(0);
+    });
+  });
+
+  describe("getProgressAtScrollPosition", () => {
+    it("maps a scroll position to progress over a range", () => {
+      const range = { start: 500, end: 1500 };
+      const container = createContainer(0);
+      expect(getProgressAtScrollPosition(container, 750, range)).toBe(0.25);
+      expect(getProgressAtScrollPosition(container, 2000, range)).toBe(1);
+      expect(getProgressAtScrollPosition(container, 250, {}, "x")).toBe(0.25);
+    });
+  });
+
+  describe("getScrollPositionForProgress", () => {
+    it("inverts vertical progress over a range", () => {
+      const range = { start: 500, end: 1500 };
+      expect(
+        getScrollPositionForProgress(createContainer(0), 0.5, range),
+      ).toEqual({ top: 1000 });
+    });
+
+    it("places both axes at the same fraction", () => {
+      expect(
+        getScrollPositionForProgress(createContainer(0), 0.5, {}, "both"),
+      ).toEqual({ top: 1000, left: 500 });
+    });
+  });
+});
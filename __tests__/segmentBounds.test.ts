@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import {
+  SegmentBoundContext,
+  isSameSegmentBound,
+  resolveSegment,
+  resolveSegmentBound,
+  resolveStaticSegment,
+} from "../segmentBounds";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+function createPath(d: string) {
+  const svg = document.createElementNS(SVG_NS, "svg");
+  const path = document.createElementNS(SVG_NS, "path");
+  path.setAttribute("d", d);
+  svg.appendChild(path);
+  return { svg, path };
+}
+
+function createContainer() {
+  const container = document.createElement("div");
+  Object.defineProperties(container, {
+    scrollTop: { value: 0, writable: true },
+    scrollLeft: { value: 0, writable: true },
+    scrollHeight: { value: 3000, writable: true },
+    scrollWidth: { value: 500, writable: true },
+    clientHeight: { value: 1000, writable: true },
+    clientWidth: { value: 500, writable: true },
+  });
+  container.getBoundingClientRect = () =>
+    ({ top: 0, left: 0, height: 1000, width: 500 }) as DOMRect;
+  return container;
+}
+
+function createSection(top: number, height: number) {
+  const section = document.createElement("div");
+  section.getBoundingClientRect = () =>
+    ({ top, left: 0, height, width: 500 }) as DOMRect;
+  return section;
+}
+
+function createContext(
+  path?: SVGPathElement,
+  overrides: Partial<SegmentBoundContext> = {},
+): SegmentBoundContext {
+  return {
+    getPath: () => path,
+    easing: "linear",
+    scrollTarget: null,
+    range: {},
+    axis: "y",
+    remap: (progress) => progress,
+    ...overrides,
+  };
+}
+
+describe("segmentBounds", () => {
+  describe("resolveSegmentBound", () => {
+    it("returns progress as-is", () => {
+      expect(resolveSegmentBound(0.4, createContext())).toBe(0.4);
+    });
+
+    it("resolves lengths along the path", () => {
+      const { path } = createPath("M 0 0 L 0 400");
+      const context = createContext(path);
+      expect(resolveSegmentBound({ length: 100 }, context)).toBeCloseTo(0.25);
+      expect(resolveSegmentBound({ length: -100 }, context)).toBeCloseTo(0.75);
+      expect(resolveSegmentBound({ length: 800 }, context)).toBeCloseTo(1);
+    });
+
+    it("undoes the easing for positions on the path", () => {
+      const { path } = createPath("M 0 0 L 0 400");
+      const context = createContext(path, { easing: (t) => t * t });
+      expect(resolveSegmentBound({ length: 100 }, context)).toBeCloseTo(0.5);
+    });
+
+    it("resolves command indices to their end points", () => {
+      const { path } = createPath("M 0 0 L 100 0 L 100 300");
+      const context = createContext(path);
+      expect(resolveSegmentBound({ anchor: 1 }, context)).toBeCloseTo(0.25);
+    });
+
+    it("resolves named anchors in the path's SVG", () => {
+      const { svg, path } = createPath("M 0 0 L 0 400");
+      const circle = document.createElementNS(SVG_NS, "circle");
+      circle.setAttribute("id", "station");
+      circle.setAttribute("cx", "20");
+      circle.setAttribute("cy", "300");
+      const marker = document.createElementNS(SVG_NS, "g");
+      marker.setAttribute("id", "marker");
+      marker.setAttribute("data-path-marker", "0.6");
+      svg.append(circle, marker);
+
+      const context = createContext(path);
+      expect(resolveSegmentBound({ anchor: "station" }, context)).toBeCloseTo(
+        0.75,
+      );
+      expect(resolveSegmentBound({ anchor: "marker" }, context)).toBeCloseTo(
+        0.6,
+      );
+      expect(resolveSegmentBound({ anchor: "missing" }, context)).toBeNull();
+    });
+
+    it("matches anchor ids literally", () => {
+      const { svg, path } = createPath("M 0 0 L 0 400");
+      const marker = document.createElementNS(SVG_NS, "g");
+      marker.setAttribute("id", 'say "hi"]');
+      marker.setAttribute("data-path-marker", "0.4");
+      svg.append(marker);
+
+      const context = createContext(path);
+      expect(resolveSegmentBound({ anchor: 'say "hi"]' }, context)).toBeCloseTo(
+        0.4,
+      );
+    });
+
+    it("waits for the path to register", () => {
+      expect(resolveSegmentBound({ length: 100 }, createContext())).toBeNull();
+    });
+
+    it("resolves element bounds through the scroll range and remap", () => {
+      const container = createContainer();
+      const section = createSection(1500, 500);
+      const context = createContext(undefined, {
+        scrollTarget: container,
+        remap: (progress) => progress / 2,
+      });
+
+      // Top meets the viewport center at 1000px of 2000px scroll
+      expect(
+        resolveSegmentBound({ target: section, edge: "top center" }, context),
+      ).toBeCloseTo(0.25);
+      expect(
+        resolveSegmentBound({ target: { current: null } }, context),
+      ).toBeNull();
+    });
+  });
+
+  describe("resolveSegment", () => {
+    it("spans a target element through the viewport center", () => {
+      const container = createContainer();
+      const segment = resolveSegment(
+        { id: "section", target: createSection(1500, 500), label: "Section" },
+        createContext(undefined, { scrollTarget: container }),
+      );
+      expect(segment).toEqual({
+        id: "section",
+        label: "Section",
+        start: 0.5,
+        end: 0.75,
+      });
+    });
+
+    it("returns null until every bound resolves", () => {
+      expect(
+        resolveSegment(
+          { id: "a", start: 0, end: { length: 10 } },
+          createContext(),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("resolveStaticSegment", () => {
+    it("resolves plain progress bounds", () => {
+      expect(resolveStaticSegment({ id: "a", start: 0.2 })).toEqual({
+        id: "a",
+        start: 0.2,
+        end: 1,
+      });
+      expect(resolveStaticSegment({ id: "a", end: { length: 10 } })).toBeNull();
+    });
+  });
+
+  describe("isSameSegmentBound", () => {
+    it("compares object bounds by content", () => {
+      const target = createSection(0, 100);
+      expect(isSameSegmentBound({ length: 10 }, { length: 10 })).toBe(true);
+      expect(isSameSegmentBound({ anchor: 2 }, { anchor: 3 })).toBe(false);
+      expect(
+        isSameSegmentBound(
+          { target, edge: "top top" },
+          { target, edge: "top top" },
+        ),
+      ).toBe(true);
+      expect(isSameSegmentBound({ length: 10 }, 10)).toBe(false);
+    });
+  });
+});
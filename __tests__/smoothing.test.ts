@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { stepSmoothing, SmoothingState, SmoothingConfig } from "../smoothing";
+
+function run(
+  config: SmoothingConfig,
+  target: number,
+  seconds: number,
+  fps: number,
+): SmoothingState {
+  let state: SmoothingState = { value: 0, velocity: 0 };
+  const frames = Math.round(seconds * fps);
+  for (let i = 0; i < frames; i++) {
+    state = stepSmoothing(state, target, 1 / fps, config);
+  }
+  return state;
+}
+
+describe("stepSmoothing", () => {
+  describe("legacy lerp", () => {
+    it("moves a fixed ratio per frame", () => {
+      const state = stepSmoothing({ value: 0, velocity: 0 }, 1, 1 / 60, 0.25);
+      expect(state.value).toBe(0.25);
+      expect(state.velocity).toBeCloseTo(15);
+    });
+  });
+
+  describe("exponential", () => {
+    it("closes half the distance per half-life", () => {
+      const state = run({ type: "exponential", halfLife: 100 }, 1, 0.1, 60);
+      expect(state.value).toBeCloseTo(0.5, 5);
+    });
+
+    it("is frame-rate independent", () => {
+      const config: SmoothingConfig = { type: "exponential", halfLife: 150 };
+      const at60 = run(config, 1, 0.5, 60);
+      const at120 = run(config, 1, 0.5, 120);
+      expect(at120.value).toBeCloseTo(at60.value, 5);
+    });
+  });
+
+  describe("spring", () => {
+    it("converges on the target", () => {
+      const state = run({ type: "spring" }, 1, 3, 60);
+      expect(state.value).toBeCloseTo(1, 3);
+      expect(Math.abs(state.velocity)).toBeLessThan(0.01);
+    });
+
+    it("overshoots when underdamped", () => {
+      let state: SmoothingState = { value: 0, velocity: 0 };
+      let peak = 0;
+      for (let i = 0; i < 120; i++) {
+        state = stepSmoothing(state, 1, 1 / 60, {
+          type: "spring",
+          stiffness: 200,
+          damping: 5,
+        });
+        peak = Math.max(peak, state.value);
+      }
+      expect(peak).toBeGreaterThan(1);
+    });
+
+    it("behaves the same at 60Hz and 120Hz", () => {
+      const config: SmoothingConfig = { type: "spring", stiffness: 120 };
+      const at60 = run(config, 1, 0.4, 60);
+      const at120 = run(config, 1, 0.4, 120);
+      expect(at120.value).toBeCloseTo(at60.value, 2);
+    });
+
+    it("exposes signed velocity", () => {
+      const state = stepSmoothing({ value: 1, velocity: 0 }, 0, 1 / 60, {
+        type: "spring",
+      });
+      expect(state.velocity).toBeLessThan(0);
+    });
+  });
+
+  it("caps long time steps", () => {
+    const state = stepSmoothing({ value: 0, velocity: 0 }, 1, 10, {
+      type: "exponential",
+      halfLife: 100,
+    });
+    expect(state.value).toBeCloseTo(0.5, 5);
+  });
+});
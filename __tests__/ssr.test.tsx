@@ -0,0 +1,65 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect } from "vitest";
+import * as React from "react";
+import { renderToString } from "react-dom/server";
+import * as library from "../index";
+import { ParallaxProvider } from "../ParallaxContext";
+import { ParallaxLayer } from "../ParallaxLayer";
+import { PathFollowerProvider } from "../PathFollowerContext";
+import { ScrollingPath } from "../ScrollingPath";
+import { FixedFollower } from "../FixedFollower";
+import { resolveScrollTarget } from "../useScrollContainer";
+
+describe("server rendering", () => {
+  it("imports without a window", () => {
+    expect(typeof window).toBe("undefined");
+    expect(library.DEFAULT_PATH_FOLLOWER_STATE.viewport).toEqual({
+      width: 0,
+      height: 0,
+    });
+    expect(resolveScrollTarget(undefined)).toBe(null);
+  });
+
+  it("renders parallax layers", () => {
+    const html = renderToString(
+      <ParallaxProvider initialViewport={{ width: 1280, height: 800 }}>
+        <ParallaxLayer speed={0.5}>Layer</ParallaxLayer>
+      </ParallaxProvider>,
+    );
+    expect(html).toContain("translate3d(0px, 0px, 0)");
+  });
+
+  it("renders a static camera frame at initialProgress", () => {
+    const html = renderToString(
+      <PathFollowerProvider
+        initialProgress={0.5}
+        initialViewport={{ width: 800, height: 800 }}
+      >
+        <ScrollingPath
+          path="M 200 0 L 200 2000"
+          height="500vh"
+          viewBox={[400, 2000]}
+        />
+        <FixedFollower autoRotate={false}>Follower</FixedFollower>
+      </PathFollowerProvider>,
+    );
+
+    // Halfway down, the frame is centered on the follower
+    expect(html).toContain('viewBox="0 800 400 400"');
+  });
+
+  it("renders identically for the same initial state", () => {
+    const page = (
+      <PathFollowerProvider initialProgress={0.25}>
+        <ScrollingPath
+          path="M 0 0 C 100 500 300 1500 400 2000"
+          height="500vh"
+        />
+        <FixedFollower>Follower</FixedFollower>
+      </PathFollowerProvider>
+    );
+    expect(renderToString(page)).toBe(renderToString(page));
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  createTimeline,
+  interpolateValue,
+  parseColor,
+  applyTimelineStyles,
+} from "../timeline";
+
+describe("timeline", () => {
+  describe("parseColor", () => {
+    it("parses hex colors", () => {
+      expect(parseColor("#fff")).toEqual([255, 255, 255, 1]);
+      expect(parseColor("#ff000080")).toEqual([255, 0, 0, 128 / 255]);
+    });
+
+    it("parses rgb and rgba colors", () => {
+      expect(parseColor("rgb(10, 20, 30)")).toEqual([10, 20, 30, 1]);
+      expect(parseColor("rgba(10, 20, 30, 0.5)")).toEqual([10, 20, 30, 0.5]);
+    });
+
+    it("returns null for other strings", () => {
+      expect(parseColor("red")).toBeNull();
+      expect(parseColor("10px")).toBeNull();
+    });
+  });
+
+  describe("interpolateValue", () => {
+    it("interpolates numbers", () => {
+      expect(interpolateValue(0, 10, 0.25)).toBe(2.5);
+    });
+
+    it("interpolates colors", () => {
+      expect(interpolateValue("#000000", "#ffffff", 0.5)).toBe(
+        "rgba(128, 128, 128, 1)",
+      );
+    });
+
+    it("interpolates unit strings", () => {
+      expect(interpolateValue("0px", "100px", 0.5)).toBe("50px");
+      expect(interpolateValue("10%", "20%", 0.5)).toBe("15%");
+    });
+
+    it("interpolates strings with several numbers", () => {
+      expect(
+        interpolateValue("translate(0px, 0px)", "translate(10px, 20px)", 0.5),
+      ).toBe("translate(5px, 10px)");
+    });
+
+    it("switches halfway for mismatched values", () => {
+      expect(interpolateValue("10px", "2rem", 0.4)).toBe("10px");
+      expect(interpolateValue("10px", "2rem", 0.6)).toBe("2rem");
+      expect(interpolateValue("block", "none", 0.6)).toBe("none");
+    });
+  });
+
+  describe("createTimeline", () => {
+    const timeline = createTimeline({
+      0: { opacity: 0, scale: 0.5 },
+      0.5: { opacity: 1 },
+      1: { scale: 1.5 },
+    });
+
+    it("holds the first and last values outside the keyframes", () => {
+      expect(timeline(-1)).toEqual({ opacity: 0, scale: 0.5 });
+      expect(timeline(2)).toEqual({ opacity: 1, scale: 1.5 });
+    });
+
+    it("interpolates each property between its own keyframes", () => {
+      const values = timeline(0.25);
+      expect(values.opacity).toBe(0.5);
+      expect(values.scale).toBe(0.75);
+    });
+
+    it("applies per-keyframe easing into the keyframe", () => {
+      const eased = createTimeline({
+        0: { x: 0 },
+        1: { x: 100, easing: "easeInQuad" },
+      });
+      expect(eased(0.5).x).toBe(25);
+    });
+
+    it("accepts easing functions", () => {
+      const stepped = createTimeline({
+        0: { x: 0 },
+        1: { x: 100, easing: (t: number) => (t < 1 ? 0 : 1) },
+      });
+      expect(stepped(0.9).x).toBe(0);
+    });
+  });
+
+  describe("applyTimelineStyles", () => {
+    it("composes transform shorthands", () => {
+      const el = document.createElement("div");
+      applyTimelineStyles(el, { x: 10, y: "2rem", rotate: 45, scale: 2 });
+      expect(el.style.transform).toBe(
+        "translate3d(10px, 2rem, 0) rotate(45deg) scale(2)",
+      );
+    });
+
+    it("writes blur as a filter", () => {
+      const el = document.createElement("div");
+      applyTimelineStyles(el, { blur: 4 });
+      expect(el.style.filter).toBe("blur(4px)");
+    });
+
+    it("sets CSS properties with px for unit-bearing numbers", () => {
+      const el = document.createElement("div");
+      applyTimelineStyles(el, { opacity: 0.5, width: 100, color: "red" });
+      expect(el.style.opacity).toBe("0.5");
+      expect(el.style.width).toBe("100px");
+      expect(el.style.color).toBe("red");
+    });
+
+    it("sets custom properties", () => {
+      const el = document.createElement("div");
+      applyTimelineStyles(el, { "--glow": 0.8 });
+      expect(el.style.getPropertyValue("--glow")).toBe("0.8");
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { getTrailColor, getTrailPieces } from "../trail";
+import { createPathSampler } from "../pathEngine";
+
+describe("trail", () => {
+  const sampler = createPathSampler("M 0 0 L 0 100");
+
+  describe("getTrailColor", () => {
+    it("spreads colors from head to tail", () => {
+      expect(getTrailColor("red", 0.5)).toBe("red");
+      expect(getTrailColor(["#000000", "#ffffff"], 0)).toBe("rgba(0, 0, 0, 1)");
+      expect(getTrailColor(["#000000", "#ffffff"], 0.5)).toBe(
+        "rgba(128, 128, 128, 1)",
+      );
+      expect(getTrailColor(["#ff0000", "#00ff00", "#0000ff"], 1)).toBe(
+        "rgba(0, 0, 255, 1)",
+      );
+    });
+  });
+
+  describe("getTrailPieces", () => {
+    it("draws a tapered ribbon from head to tail", () => {
+      const pieces = getTrailPieces(sampler, 0.5, 0.3, 2, {
+        width: 8,
+        opacityFalloff: 0.5,
+      });
+      expect(pieces).toHaveLength(2);
+      // Normal of a downward line points to -x
+      expect(pieces[0].d).toBe("M -4 50 L -2 40 L 2 40 L 4 50 Z");
+      expect(pieces[1].d).toBe("M -2 40 L 0 30 L 0 30 L 2 40 Z");
+      expect(pieces[0].opacity).toBeCloseTo(0.875);
+      expect(pieces[1].opacity).toBeCloseTo(0.625);
+    });
+
+    it("draws polyline pieces of decreasing width", () => {
+      const pieces = getTrailPieces(sampler, 0.5, 0.3, 2, {
+        variant: "polyline",
+        width: 8,
+        widthFalloff: 0.5,
+        color: "gold",
+      });
+      expect(pieces[0]).toMatchObject({
+        d: "M 0 50 L 0 40",
+        color: "gold",
+        width: 7,
+      });
+      expect(pieces[1].width).toBe(5);
+    });
+
+    it("keeps the piece count when the trail has no length", () => {
+      const pieces = getTrailPieces(sampler, 0.2, 0.2, 4);
+      expect(pieces).toHaveLength(4);
+      expect(pieces[0].d).toBe("M -3 20 L -2.25 20 L 2.25 20 L 3 20 Z");
+    });
+  });
+});
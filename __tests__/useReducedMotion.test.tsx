@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as React from "react";
+import { act, render } from "@testing-library/react";
+import {
+  ReducedMotionContext,
+  ReducedMotionPolicy,
+  useReducedMotion,
+} from "../useReducedMotion";
+import { ParallaxProvider } from "../ParallaxContext";
+import { PathFollowerProvider } from "../PathFollowerContext";
+
+describe("useReducedMotion", () => {
+  let matches = false;
+  let listeners: (() => void)[] = [];
+
+  const setPreference = (reduce: boolean) => {
+    matches = reduce;
+    listeners.forEach((listener) => listener());
+  };
+
+  beforeEach(() => {
+    matches = false;
+    listeners = [];
+    window.matchMedia = vi.fn().mockImplementation((query: string) => ({
+      get matches() {
+        return matches;
+      },
+      media: query,
+      addEventListener: (_type: string, listener: () => void) => {
+        listeners.push(listener);
+      },
+      removeEventListener: (_type: string, listener: () => void) => {
+        listeners = listeners.filter((l) => l !== listener);
+      },
+    }));
+  });
+
+  afterEach(() => {
+    // jsdom has no matchMedia of its own
+    delete (window as { matchMedia?: unknown }).matchMedia;
+  });
+
+  function Probe({ policy }: { policy?: ReducedMotionPolicy }) {
+    const reduced = useReducedMotion(policy);
+    return <span data-testid="reduced">{String(reduced)}</span>;
+  }
+
+  it("follows the media query by default", () => {
+    matches = true;
+    const { getByTestId } = render(<Probe />);
+    expect(getByTestId("reduced")).toHaveTextContent("true");
+  });
+
+  it("updates live when the media query changes", () => {
+    const { getByTestId } = render(<Probe policy="respect" />);
+    expect(getByTestId("reduced")).toHaveTextContent("false");
+
+    act(() => setPreference(true));
+    expect(getByTestId("reduced")).toHaveTextContent("true");
+
+    act(() => setPreference(false));
+    expect(getByTestId("reduced")).toHaveTextContent("false");
+  });
+
+  it("overrides the media query with ignore and always", () => {
+    matches = true;
+    const { getByTestId, rerender } = render(<Probe policy="ignore" />);
+    expect(getByTestId("reduced")).toHaveTextContent("false");
+
+    matches = false;
+    rerender(<Probe policy="always" />);
+    expect(getByTestId("reduced")).toHaveTextContent("true");
+  });
+
+  it("reads the nearest provider policy", () => {
+    const { getByTestId } = render(
+      <ReducedMotionContext.Provider value="always">
+        <Probe />
+      </ReducedMotionContext.Provider>,
+    );
+    expect(getByTestId("reduced")).toHaveTextContent("true");
+  });
+
+  it("inherits the enclosing provider's policy in nested providers", () => {
+    matches = true;
+    const { getAllByTestId } = render(
+      <ParallaxProvider reducedMotion="ignore">
+        <PathFollowerProvider>
+          <Probe />
+          <PathFollowerProvider reducedMotion="always">
+            <Probe />
+          </PathFollowerProvider>
+        </PathFollowerProvider>
+      </ParallaxProvider>,
+    );
+    const [inherited, own] = getAllByTestId("reduced");
+    expect(inherited).toHaveTextContent("false");
+    expect(own).toHaveTextContent("true");
+  });
+
+  it("respects the user setting at the root", () => {
+    matches = true;
+    const { getByTestId } = render(
+      <PathFollowerProvider>
+        <Probe />
+      </PathFollowerProvider>,
+    );
+    expect(getByTestId("reduced")).toHaveTextContent("true");
+  });
+
+  it("treats a missing matchMedia as no preference", () => {
+    delete (window as { matchMedia?: unknown }).matchMedia;
+    const { getByTestId } = render(<Probe />);
+    expect(getByTestId("reduced")).toHaveTextContent("false");
+  });
+});
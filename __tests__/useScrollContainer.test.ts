@@ -35,6 +35,7 @@ describe("useScrollContainer utilities", () => {
         scrollTop: 0,
         scrollLeft: 0,
         scrollHeight: 0,
+        scrollWidth: 0,
         clientHeight: 0,
         clientWidth: 0,
       });
@@ -45,6 +46,7 @@ describe("useScrollContainer utilities", () => {
       expect(state).toHaveProperty("scrollTop");
       expect(state).toHaveProperty("scrollLeft");
       expect(state).toHaveProperty("scrollHeight");
+      expect(state).toHaveProperty("scrollWidth");
       expect(state).toHaveProperty("clientHeight");
       expect(state).toHaveProperty("clientWidth");
     });
@@ -55,6 +57,7 @@ describe("useScrollContainer utilities", () => {
         scrollTop: { value: 100, writable: true },
         scrollLeft: { value: 50, writable: true },
         scrollHeight: { value: 1000, writable: true },
+        scrollWidth: { value: 600, writable: true },
         clientHeight: { value: 500, writable: true },
         clientWidth: { value: 300, writable: true },
       });
@@ -64,6 +67,7 @@ describe("useScrollContainer utilities", () => {
         scrollTop: 100,
         scrollLeft: 50,
         scrollHeight: 1000,
+        scrollWidth: 600,
         clientHeight: 500,
         clientWidth: 300,
       });
@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { normalizeDirection, clamp, linearEase, generateId } from "../utils";
+import {
+  normalizeDirection,
+  clamp,
+  linearEase,
+  generateId,
+  getPointOnPath,
+  getPathTangent,
+  parseSVGPath,
+} from "../utils";
 
 describe("Utility Functions", () => {
   describe("normalizeDirection", () => {
@@ -77,4 +85,23 @@ describe("Utility Functions", () => {
       expect(ids.size).toBe(100);
     });
   });
+
+  describe("path sources", () => {
+    const PATH = "M 0 0 L 100 0 L 100 100";
+
+    it("samples string paths without the DOM", () => {
+      expect(getPointOnPath(PATH, 0.25)).toEqual({ x: 50, y: 0 });
+      expect(parseSVGPath(PATH)(0.75)).toEqual({ x: 100, y: 50 });
+    });
+
+    it("computes tangent angles for string paths", () => {
+      expect(getPathTangent(PATH, 0.25)).toBe(0);
+      expect(getPathTangent(PATH, 0.75)).toBe(90);
+    });
+
+    it("calls function sources directly", () => {
+      const fn = (t: number) => ({ x: t * 10, y: 0 });
+      expect(getPointOnPath(fn, 0.5)).toEqual({ x: 5, y: 0 });
+    });
+  });
 });
@@ -0,0 +1,250 @@
+/**
+ * Camera modes for ScrollingPath's dynamic viewBox
+ */
+
+import { SmoothingConfig, SmoothingState, stepSmoothing } from "./smoothing";
+
+/**
+ * - "fixed": frame the whole viewBox
+ * - "follow-progress": pan vertically with scroll progress
+ * - "follow-point": keep the follower's point in frame on both axes
+ * - "fit-segment": zoom to frame the active segment
+ */
+export type CameraMode =
+  | "fixed"
+  | "follow-progress"
+  | "follow-point"
+  | "fit-segment";
+
+export interface CameraConfig {
+  /** Default: "follow-progress" */
+  mode?: CameraMode;
+  /** ViewBox units visible vertically at zoom 1 in follow modes. Default: 400 */
+  visibleHeight?: number;
+  /** Zoom factor, above 1 zooms in. Default: 1 */
+  zoom?: number;
+  /**
+   * Fraction of the frame (0-1) the target can move within before the
+   * camera pans, per axis or for both. Default: 0
+   */
+  deadZone?: number | { x: number; y: number };
+  /** Time-based camera smoothing. Default: none (the camera snaps) */
+  smoothing?: SmoothingConfig;
+  /** Space around the segment in "fit-segment" mode, in viewBox units. Default: 40 */
+  padding?: number;
+}
+
+export interface CameraFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CameraBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface CameraInput {
+  /** Full viewBox size [width, height] */
+  viewBox: [number, number];
+  /** Viewport size in pixels; 0 × 0 falls back to the viewBox aspect */
+  viewport: { width: number; height: number };
+  /** Scroll progress (0-1) for "follow-progress" */
+  scrollProgress: number;
+  /** Follower point in viewBox units for "follow-point" */
+  point: { x: number; y: number };
+  /** Bounds of the active segment for "fit-segment" */
+  segmentBounds?: CameraBounds | null;
+}
+
+/** Camera position as smoothed center and height */
+export interface CameraState {
+  centerX: SmoothingState;
+  centerY: SmoothingState;
+  height: SmoothingState;
+}
+
+/** Below this the camera counts as settled, in viewBox units */
+const CAMERA_EPSILON = 0.01;
+
+const DEFAULT_VISIBLE_HEIGHT = 400;
+
+/**
+ * Normalize the `camera` prop, which accepts a mode or a full config
+ */
+export function resolveCameraConfig(
+  camera: CameraMode | CameraConfig = {},
+): CameraConfig {
+  return typeof camera === "string" ? { mode: camera } : camera;
+}
+
+function getAspectRatio(input: CameraInput, visibleHeight: number): number {
+  const { viewport, viewBox } = input;
+  return viewport.height > 0
+    ? viewport.width / viewport.height
+    : viewBox[0] / visibleHeight;
+}
+
+/** Keep a frame inside the viewBox on one axis, centering it when too large */
+function clampCenter(center: number, size: number, extent: number): number {
+  if (size >= extent) return extent / 2;
+  return Math.max(size / 2, Math.min(extent - size / 2, center));
+}
+
+function toFrame(
+  centerX: number,
+  centerY: number,
+  height: number,
+  aspectRatio: number,
+): CameraFrame {
+  const width = height * aspectRatio;
+  return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+}
+
+/**
+ * The frame a camera aims for, before dead zone and smoothing
+ */
+export function getCameraFrame(
+  config: CameraConfig,
+  input: CameraInput,
+): CameraFrame {
+  const {
+    mode = "follow-progress",
+    visibleHeight = DEFAULT_VISIBLE_HEIGHT,
+    zoom = 1,
+    padding = 40,
+  } = config;
+  const [viewBoxWidth, viewBoxHeight] = input.viewBox;
+  const aspectRatio = getAspectRatio(input, visibleHeight);
+  const scale = Math.max(0.0001, zoom);
+
+  if (mode === "fixed") {
+    // Fit the whole viewBox inside the viewport's aspect
+    const height = Math.max(viewBoxHeight, viewBoxWidth / aspectRatio) / scale;
+    return toFrame(viewBoxWidth / 2, viewBoxHeight / 2, height, aspectRatio);
+  }
+
+  if (mode === "fit-segment" && input.segmentBounds) {
+    const { minX, minY, maxX, maxY } = input.segmentBounds;
+    const boxWidth = maxX - minX + padding * 2;
+    const boxHeight = maxY - minY + padding * 2;
+    const height = Math.max(boxHeight, boxWidth / aspectRatio) / scale;
+    return toFrame((minX + maxX) / 2, (minY + maxY) / 2, height, aspectRatio);
+  }
+
+  const height = visibleHeight / scale;
+  const width = height * aspectRatio;
+
+  if (mode === "follow-progress") {
+    return toFrame(
+      clampCenter(viewBoxWidth / 2, width, viewBoxWidth),
+      clampCenter(input.scrollProgress * viewBoxHeight, height, viewBoxHeight),
+      height,
+      aspectRatio,
+    );
+  }
+
+  // "follow-point", and "fit-segment" between segments
+  return toFrame(
+    clampCenter(input.point.x, width, viewBoxWidth),
+    clampCenter(input.point.y, height, viewBoxHeight),
+    height,
+    aspectRatio,
+  );
+}
+
+/**
+ * Move the camera toward a target frame by `dt` seconds, honoring the
+ * dead zone and smoothing. Pass null to start at the target.
+ */
+export function stepCamera(
+  state: CameraState | null,
+  target: CameraFrame,
+  dt: number,
+  config: CameraConfig,
+): CameraState {
+  const targetX = target.x + target.width / 2;
+  const targetY = target.y + target.height / 2;
+
+  if (!state) {
+    return {
+      centerX: { value: targetX, velocity: 0 },
+      centerY: { value: targetY, velocity: 0 },
+      height: { value: target.height, velocity: 0 },
+    };
+  }
+
+  // Only pan once the target leaves the dead zone around the center
+  const { deadZone = 0, smoothing } = config;
+  const zone =
+    typeof deadZone === "number" ? { x: deadZone, y: deadZone } : deadZone;
+  const resolve = (current: number, next: number, slack: number) => {
+    if (next > current + slack) return next - slack;
+    if (next < current - slack) return next + slack;
+    return current;
+  };
+
+  const goalX = resolve(
+    state.centerX.value,
+    targetX,
+    (Math.max(0, Math.min(1, zone.x)) * target.width) / 2,
+  );
+  const goalY = resolve(
+    state.centerY.value,
+    targetY,
+    (Math.max(0, Math.min(1, zone.y)) * target.height) / 2,
+  );
+
+  if (!smoothing) {
+    return {
+      centerX: { value: goalX, velocity: 0 },
+      centerY: { value: goalY, velocity: 0 },
+      height: { value: target.height, velocity: 0 },
+    };
+  }
+
+  return {
+    centerX: stepSmoothing(state.centerX, goalX, dt, smoothing),
+    centerY: stepSmoothing(state.centerY, goalY, dt, smoothing),
+    height: stepSmoothing(state.height, target.height, dt, smoothing),
+  };
+}
+
+/**
+ * Frame for a camera state at the target's aspect ratio
+ */
+export function getCameraStateFrame(
+  state: CameraState,
+  target: CameraFrame,
+): CameraFrame {
+  const aspectRatio = target.height > 0 ? target.width / target.height : 1;
+  return toFrame(
+    state.centerX.value,
+    state.centerY.value,
+    state.height.value,
+    aspectRatio,
+  );
+}
+
+/**
+ * Whether a camera has caught up with its target (within the dead zone)
+ */
+export function isCameraSettled(
+  state: CameraState,
+  target: CameraFrame,
+  config: CameraConfig,
+): boolean {
+  const goal = stepCamera(state, target, 0, {
+    ...config,
+    smoothing: undefined,
+  });
+  return (["centerX", "centerY", "height"] as const).every(
+    (key) =>
+      Math.abs(state[key].value - goal[key].value) < CAMERA_EPSILON &&
+      Math.abs(state[key].velocity) < CAMERA_EPSILON,
+  );
+}
@@ -2,6 +2,7 @@
 export {
   ParallaxProvider,
   useParallax,
+  useParallaxRef,
   ParallaxContext,
 } from "./ParallaxContext";
 export { ParallaxLayer } from "./ParallaxLayer";
@@ -12,8 +13,21 @@ export {
   usePathFollower,
   usePathFollowerRef,
 } from "./PathFollowerContext";
-export { ScrollingPath } from "./ScrollingPath";
+export { ScrollingPath, useScrollingPath } from "./ScrollingPath";
+export type {
+  PathGradient,
+  GradientStop,
+  GlowFilterConfig,
+  ScrollingPathDefIds,
+} from "./ScrollingPath";
+export { PathMarker } from "./PathMarker";
+export type { PathMarkerState } from "./PathMarker";
 export { FixedFollower } from "./FixedFollower";
+export type { ProgressOffset } from "./FixedFollower";
+export { FollowerTrail } from "./FollowerTrail";
+export { Segment, useSegment, useSegmentRef } from "./Segment";
+export type { SegmentRef, SegmentStateSubscriber } from "./Segment";
+export { Animate, useProgressTimeline } from "./Animate";
 
 // Scroll container utilities
 export {
@@ -21,36 +35,153 @@ export {
   getScrollState,
   useScrollContainer,
 } from "./useScrollContainer";
-export type { ScrollContainerRef, ScrollState } from "./useScrollContainer";
+export type {
+  ScrollAxis,
+  ScrollContainerRef,
+  ScrollState,
+} from "./useScrollContainer";
+export {
+  parseScrollEdge,
+  resolveScrollBoundary,
+  getScrollRangeProgress,
+  getScrollPositionForProgress,
+  getProgressAtScrollPosition,
+} from "./scrollRange";
+export type { ScrollBoundary, ScrollEdge, ScrollRange } from "./scrollRange";
+export { animateScroll } from "./scrollAnimator";
+export { useReducedMotion } from "./useReducedMotion";
+export type { ReducedMotionPolicy } from "./useReducedMotion";
+export type { ScrollAnimation, ScrollAnimationOptions } from "./scrollAnimator";
 
 // Path follower types
 export type {
   PathFollowerState,
+  PathTrackState,
   PathFollowerSubscriber,
   PathFollowerContextValue,
   PathFollowerProviderProps,
+  PathFollowerLoopStats,
+  SnapConfig,
+  ScrollToSegmentOptions,
+  ScrollToPointOptions,
+  ReducedMotionFallback,
+} from "./pathFollowerTypes";
+export {
+  DEFAULT_PATH_FOLLOWER_STATE,
+  DEFAULT_TRACK_ID,
 } from "./pathFollowerTypes";
-export { DEFAULT_PATH_FOLLOWER_STATE } from "./pathFollowerTypes";
+
+// Camera modes for ScrollingPath
+export {
+  resolveCameraConfig,
+  getCameraFrame,
+  getCameraStateFrame,
+  stepCamera,
+  isCameraSettled,
+} from "./camera";
+export type {
+  CameraMode,
+  CameraConfig,
+  CameraFrame,
+  CameraBounds,
+  CameraInput,
+  CameraState,
+} from "./camera";
+
+// Progressive path reveal
+export {
+  resolveRevealConfig,
+  getStrokeRange,
+  getRevealStrokes,
+  getAheadStroke,
+} from "./reveal";
+export type { RevealConfig, RevealAheadStyle, RevealStroke } from "./reveal";
+
+// Follower trails
+export { getTrailPieces, getTrailColor } from "./trail";
+export type { TrailStyle, TrailVariant, TrailPiece } from "./trail";
+
+// Smoothing integrators
+export { stepSmoothing } from "./smoothing";
+export type {
+  SmoothingConfig,
+  SmoothingState,
+  SpringSmoothing,
+  ExponentialSmoothing,
+} from "./smoothing";
+
+// Keyframe timelines
+export {
+  createTimeline,
+  interpolateValue,
+  parseColor,
+  applyTimelineStyles,
+} from "./timeline";
+export type {
+  TimelineKeyframe,
+  TimelineKeyframes,
+  TimelineValue,
+  TimelineValues,
+} from "./timeline";
 
 // Easing utilities
 export { easings, cubicBezier, applyEasing } from "./easing";
 export type { EasingName, EasingFunction } from "./easing";
 
 // Path segment utilities
-export { SegmentTracker, createSegmentPresets } from "./PathSegment";
+export {
+  SegmentTracker,
+  createSegmentPresets,
+  createProgressRemap,
+  getSegmentSnapPoints,
+} from "./PathSegment";
 export type {
   PathSegment,
   SegmentEvent,
   SegmentEventType,
   SegmentEventCallback,
+  SegmentBoundaryMode,
+  SegmentTrackerOptions,
+  SegmentState,
+  SnapPointSource,
+  WaypointOptions,
 } from "./PathSegment";
 
+// Path geometry features for splitting paths into segments
+export {
+  getSubpathBreaks,
+  getCommandBreaks,
+  getSharpTurns,
+  getExtrema,
+} from "./pathGeometry";
+export type { SharpTurnOptions, ExtremaOptions } from "./pathGeometry";
+
+// Segment bounds by path length, anchors or elements
+export {
+  resolveSegment,
+  resolveSegmentBound,
+  resolveStaticSegment,
+} from "./segmentBounds";
+export type {
+  SegmentBound,
+  SegmentDefinition,
+  SegmentBoundContext,
+} from "./segmentBounds";
+
+// SVG path engine
+export { createPathSampler, parsePathData } from "./pathEngine";
+export { getPathSampler, clearPathCache } from "./pathCache";
+export type { PathSampler, PathCommand, PathCommandType } from "./pathEngine";
+
 // Type exports
 export type {
   ParallaxConfig,
   ParallaxDirection,
   ParallaxLayerProps,
   ParallaxContextValue,
+  ParallaxStoreValue,
+  ParallaxScrollState,
+  ParallaxScrollSubscriber,
   MotionPathSource,
   MotionPathFunction,
 } from "./types";
@@ -0,0 +1,41 @@
+import { createPathSampler, PathSampler } from "./pathEngine";
+
+/** Maximum number of distinct paths kept in the cache */
+const MAX_CACHED_PATHS = 64;
+
+// Map iteration order doubles as recency order for LRU eviction
+const cache = new Map<string, PathSampler>();
+
+/**
+ * Get a memoized sampler for a path string or SVGPathElement.
+ * Samplers are keyed by path data, so each distinct path is measured once.
+ */
+export function getPathSampler(source: string | SVGPathElement): PathSampler {
+  const pathData =
+    typeof source === "string" ? source : (source.getAttribute("d") ?? "");
+
+  const cached = cache.get(pathData);
+  if (cached) {
+    // Move to the most recently used position
+    cache.delete(pathData);
+    cache.set(pathData, cached);
+    return cached;
+  }
+
+  const sampler = createPathSampler(pathData);
+  cache.set(pathData, sampler);
+
+  if (cache.size > MAX_CACHED_PATHS) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+
+  return sampler;
+}
+
+/**
+ * Drop all cached path samplers
+ */
+export function clearPathCache(): void {
+  cache.clear();
+}
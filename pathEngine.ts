@@ -0,0 +1,537 @@
+/**
+ * Pure TypeScript SVG path engine.
+ *
+ * Parses path data without touching the DOM, so it works under SSR, in web
+ * workers and in jsdom where `getTotalLength`/`getPointAtLength` are missing.
+ */
+
+export type PathCommandType =
+  | "M"
+  | "L"
+  | "H"
+  | "V"
+  | "C"
+  | "S"
+  | "Q"
+  | "T"
+  | "A"
+  | "Z";
+
+export interface PathCommand {
+  /** Upper-case command letter */
+  type: PathCommandType;
+  /** Whether the command used relative (lower-case) coordinates */
+  relative: boolean;
+  /** Command arguments as written in the path data */
+  values: number[];
+}
+
+export interface PathSampler {
+  /** Total arc length of the path in user units */
+  length: number;
+  /** Point at progress `t` (0-1) measured by arc length */
+  pointAt: (t: number) => { x: number; y: number };
+  /** Unit tangent vector at progress `t` (0-1) */
+  tangentAt: (t: number) => { x: number; y: number };
+  /** Unit normal vector at progress `t`, the tangent rotated 90° clockwise on screen */
+  normalAt: (t: number) => { x: number; y: number };
+  /** Progress (0-1) of the point on the path closest to (x, y) */
+  nearestProgress: (x: number, y: number) => number;
+  /** Progress (0-1) at the end point of the path command at `index` */
+  vertexProgress: (index: number) => number;
+}
+
+type Point = { x: number; y: number };
+
+type DrawSegment =
+  | { type: "line"; from: Point; to: Point }
+  | { type: "cubic"; from: Point; c1: Point; c2: Point; to: Point };
+
+const COMMAND_ARITY: Record<PathCommandType, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  A: 7,
+  Z: 0,
+};
+
+/** Number of arc-length samples taken per curve segment */
+const CURVE_SAMPLES = 24;
+
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Parse SVG path data into a list of commands.
+ * Implicit repeats are expanded into separate commands (a repeated moveto
+ * becomes a lineto). Like browsers, parsing stops at the first error and
+ * keeps everything before it.
+ */
+export function parsePathData(pathData: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  let index = 0;
+
+  const skipSeparators = () => {
+    while (index < pathData.length && /[\s,]/.test(pathData[index])) index++;
+  };
+
+  const readNumber = (): number | null => {
+    skipSeparators();
+    NUMBER_PATTERN.lastIndex = index;
+    const match = NUMBER_PATTERN.exec(pathData);
+    if (!match) return null;
+    index = NUMBER_PATTERN.lastIndex;
+    return parseFloat(match[0]);
+  };
+
+  const readFlag = (): number | null => {
+    skipSeparators();
+    const char = pathData[index];
+    if (char !== "0" && char !== "1") return null;
+    index++;
+    return char === "1" ? 1 : 0;
+  };
+
+  while (true) {
+    skipSeparators();
+    if (index >= pathData.length) break;
+
+    const letter = pathData[index];
+    const type = letter.toUpperCase() as PathCommandType;
+    if (!(type in COMMAND_ARITY)) break;
+    // Path data must start with a moveto
+    if (commands.length === 0 && type !== "M") break;
+    index++;
+
+    const relative = letter !== type;
+    const arity = COMMAND_ARITY[type];
+
+    if (arity === 0) {
+      commands.push({ type, relative, values: [] });
+      continue;
+    }
+
+    let repeat = 0;
+    let failed = false;
+    while (true) {
+      skipSeparators();
+      if (index >= pathData.length || /[a-zA-Z]/.test(pathData[index])) break;
+
+      const values: number[] = [];
+      for (let i = 0; i < arity; i++) {
+        const value =
+          type === "A" && (i === 3 || i === 4) ? readFlag() : readNumber();
+        if (value === null) {
+          failed = true;
+          break;
+        }
+        values.push(value);
+      }
+      if (failed) break;
+
+      const repeatedType = type === "M" && repeat > 0 ? "L" : type;
+      commands.push({ type: repeatedType, relative, values });
+      repeat++;
+    }
+
+    // A command without any complete argument group is an error
+    if (failed || repeat === 0) break;
+  }
+
+  return commands;
+}
+
+/**
+ * Convert an elliptical arc to cubic bezier segments (SVG spec F.6.5)
+ */
+function arcToCubics(
+  from: Point,
+  rxIn: number,
+  ryIn: number,
+  rotation: number,
+  largeArc: number,
+  sweep: number,
+  to: Point,
+): DrawSegment[] {
+  if (from.x === to.x && from.y === to.y) return [];
+
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0) return [{ type: "line", from, to }];
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Scale radii up when they are too small to span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    const scale = Math.sqrt(lambda);
+    rx *= scale;
+    ry *= scale;
+  }
+
+  const sign = largeArc === sweep ? -1 : 1;
+  const numerator =
+    rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = sign * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+
+  const cx = cos * cxp - sin * cyp + (from.x + to.x) / 2;
+  const cy = sin * cxp + cos * cyp + (from.y + to.y) / 2;
+
+  const angleBetween = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+
+  const theta1 = angleBetween(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaTheta = angleBetween(
+    (x1p - cxp) / rx,
+    (y1p - cyp) / ry,
+    (-x1p - cxp) / rx,
+    (-y1p - cyp) / ry,
+  );
+  if (!sweep && deltaTheta > 0) deltaTheta -= 2 * Math.PI;
+  if (sweep && deltaTheta < 0) deltaTheta += 2 * Math.PI;
+
+  const count = Math.max(1, Math.ceil(Math.abs(deltaTheta) / (Math.PI / 2)));
+  const step = deltaTheta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+
+  const map = (ux: number, uy: number): Point => ({
+    x: cx + rx * cos * ux - ry * sin * uy,
+    y: cy + rx * sin * ux + ry * cos * uy,
+  });
+
+  const segments: DrawSegment[] = [];
+  let start = from;
+  for (let i = 0; i < count; i++) {
+    const a1 = theta1 + i * step;
+    const a2 = a1 + step;
+    const end = i === count - 1 ? to : map(Math.cos(a2), Math.sin(a2));
+    segments.push({
+      type: "cubic",
+      from: start,
+      c1: map(Math.cos(a1) - k * Math.sin(a1), Math.sin(a1) + k * Math.cos(a1)),
+      c2: map(Math.cos(a2) + k * Math.sin(a2), Math.sin(a2) - k * Math.cos(a2)),
+      to: end,
+    });
+    start = end;
+  }
+  return segments;
+}
+
+/**
+ * Convert parsed commands into absolute line and cubic segments
+ */
+function toDrawSegments(commands: PathCommand[]): {
+  segments: DrawSegment[];
+  origin: Point;
+  /** Number of segments drawn up to the end of each command */
+  vertices: number[];
+} {
+  const segments: DrawSegment[] = [];
+  const vertices: number[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+  let origin: Point | null = null;
+  let lastCubicControl: Point | null = null;
+  let lastQuadControl: Point | null = null;
+
+  for (const { type, relative, values: v } of commands) {
+    const ox = relative ? current.x : 0;
+    const oy = relative ? current.y : 0;
+    let nextCubicControl: Point | null = null;
+    let nextQuadControl: Point | null = null;
+
+    switch (type) {
+      case "M": {
+        current = { x: ox + v[0], y: oy + v[1] };
+        subpathStart = current;
+        if (!origin) origin = current;
+        break;
+      }
+      case "L":
+      case "H":
+      case "V": {
+        const to =
+          type === "L"
+            ? { x: ox + v[0], y: oy + v[1] }
+            : type === "H"
+              ? { x: ox + v[0], y: current.y }
+              : { x: current.x, y: oy + v[0] };
+        segments.push({ type: "line", from: current, to });
+        current = to;
+        break;
+      }
+      case "C":
+      case "S": {
+        const c1: Point =
+          type === "C"
+            ? { x: ox + v[0], y: oy + v[1] }
+            : lastCubicControl
+              ? {
+                  x: 2 * current.x - lastCubicControl.x,
+                  y: 2 * current.y - lastCubicControl.y,
+                }
+              : current;
+        const rest = type === "C" ? v.slice(2) : v;
+        const c2 = { x: ox + rest[0], y: oy + rest[1] };
+        const to = { x: ox + rest[2], y: oy + rest[3] };
+        segments.push({ type: "cubic", from: current, c1, c2, to });
+        nextCubicControl = c2;
+        current = to;
+        break;
+      }
+      case "Q":
+      case "T": {
+        const control: Point =
+          type === "Q"
+            ? { x: ox + v[0], y: oy + v[1] }
+            : lastQuadControl
+              ? {
+                  x: 2 * current.x - lastQuadControl.x,
+                  y: 2 * current.y - lastQuadControl.y,
+                }
+              : current;
+        const rest = type === "Q" ? v.slice(2) : v;
+        const to = { x: ox + rest[0], y: oy + rest[1] };
+        // Exact quadratic-to-cubic elevation
+        segments.push({
+          type: "cubic",
+          from: current,
+          c1: {
+            x: current.x + (2 / 3) * (control.x - current.x),
+            y: current.y + (2 / 3) * (control.y - current.y),
+          },
+          c2: {
+            x: to.x + (2 / 3) * (control.x - to.x),
+            y: to.y + (2 / 3) * (control.y - to.y),
+          },
+          to,
+        });
+        nextQuadControl = control;
+        current = to;
+        break;
+      }
+      case "A": {
+        const to = { x: ox + v[5], y: oy + v[6] };
+        segments.push(
+          ...arcToCubics(current, v[0], v[1], v[2], v[3], v[4], to),
+        );
+        current = to;
+        break;
+      }
+      case "Z": {
+        if (current.x !== subpathStart.x || current.y !== subpathStart.y) {
+          segments.push({ type: "line", from: current, to: subpathStart });
+        }
+        current = subpathStart;
+        break;
+      }
+    }
+
+    lastCubicControl = nextCubicControl;
+    lastQuadControl = nextQuadControl;
+    vertices.push(segments.length);
+  }
+
+  return { segments, origin: origin ?? { x: 0, y: 0 }, vertices };
+}
+
+function evaluate(segment: DrawSegment, u: number): Point {
+  if (segment.type === "line") {
+    return {
+      x: segment.from.x + (segment.to.x - segment.from.x) * u,
+      y: segment.from.y + (segment.to.y - segment.from.y) * u,
+    };
+  }
+  const { from, c1, c2, to } = segment;
+  const mt = 1 - u;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * u;
+  const c = 3 * mt * u * u;
+  const d = u * u * u;
+  return {
+    x: a * from.x + b * c1.x + c * c2.x + d * to.x,
+    y: a * from.y + b * c1.y + c * c2.y + d * to.y,
+  };
+}
+
+function derivative(segment: DrawSegment, u: number): Point {
+  if (segment.type === "line") {
+    return {
+      x: segment.to.x - segment.from.x,
+      y: segment.to.y - segment.from.y,
+    };
+  }
+  const { from, c1, c2, to } = segment;
+  const mt = 1 - u;
+  const a = 3 * mt * mt;
+  const b = 6 * mt * u;
+  const c = 3 * u * u;
+  const d = {
+    x: a * (c1.x - from.x) + b * (c2.x - c1.x) + c * (to.x - c2.x),
+    y: a * (c1.y - from.y) + b * (c2.y - c1.y) + c * (to.y - c2.y),
+  };
+  if (Math.hypot(d.x, d.y) > 1e-9) return d;
+
+  // Coincident control points: fall back to the nearest usable direction
+  const candidates =
+    u < 0.5
+      ? [c2.x - from.x, c2.y - from.y, to.x - from.x, to.y - from.y]
+      : [to.x - c1.x, to.y - c1.y, to.x - from.x, to.y - from.y];
+  if (Math.hypot(candidates[0], candidates[1]) > 1e-9) {
+    return { x: candidates[0], y: candidates[1] };
+  }
+  return { x: candidates[2], y: candidates[3] };
+}
+
+/**
+ * Build an arc-length sampler for SVG path data.
+ * Supports every path command (M/L/H/V/C/S/Q/T/A/Z), relative and absolute.
+ */
+export function createPathSampler(pathData: string): PathSampler {
+  const { segments, origin, vertices } = toDrawSegments(
+    parsePathData(pathData),
+  );
+
+  // Arc-length lookup table: cumulative length at each sampled parameter
+  const lengths: number[] = [];
+  const segmentIndices: number[] = [];
+  const params: number[] = [];
+  const points: Point[] = [];
+  let total = 0;
+
+  // Cumulative length at the end of each segment
+  const segmentEnds: number[] = [];
+
+  segments.forEach((segment, i) => {
+    const steps = segment.type === "line" ? 1 : CURVE_SAMPLES;
+    let previous = segment.from;
+    for (let step = 0; step <= steps; step++) {
+      const u = step / steps;
+      const point = step === 0 ? segment.from : evaluate(segment, u);
+      total += Math.hypot(point.x - previous.x, point.y - previous.y);
+      lengths.push(total);
+      segmentIndices.push(i);
+      params.push(u);
+      points.push(point);
+      previous = point;
+    }
+    segmentEnds.push(total);
+  });
+
+  const locate = (t: number): { segment: DrawSegment; u: number } | null => {
+    if (segments.length === 0) return null;
+
+    const target = Math.max(0, Math.min(1, t)) * total;
+    let low = 0;
+    let high = lengths.length - 1;
+    while (low < high - 1) {
+      const mid = (low + high) >> 1;
+      if (lengths[mid] <= target) low = mid;
+      else high = mid;
+    }
+
+    if (segmentIndices[low] !== segmentIndices[high]) {
+      // Zero-length gap at a segment boundary
+      return { segment: segments[segmentIndices[high]], u: params[high] };
+    }
+
+    const span = lengths[high] - lengths[low];
+    const fraction = span > 0 ? (target - lengths[low]) / span : 0;
+    const u = params[low] + (params[high] - params[low]) * fraction;
+    return { segment: segments[segmentIndices[low]], u };
+  };
+
+  const pointAt = (t: number) => {
+    const location = locate(t);
+    if (!location) return { x: origin.x, y: origin.y };
+    return evaluate(location.segment, location.u);
+  };
+
+  const tangentAt = (t: number) => {
+    const location = locate(t);
+    if (!location) return { x: 1, y: 0 };
+    const d = derivative(location.segment, location.u);
+    const magnitude = Math.hypot(d.x, d.y);
+    if (magnitude === 0) return { x: 1, y: 0 };
+    return { x: d.x / magnitude, y: d.y / magnitude };
+  };
+
+  const normalAt = (t: number) => {
+    const tangent = tangentAt(t);
+    return { x: -tangent.y, y: tangent.x };
+  };
+
+  const nearestProgress = (x: number, y: number) => {
+    if (segments.length === 0 || total === 0) return 0;
+    const distance = (t: number) => {
+      const point = pointAt(t);
+      return Math.hypot(point.x - x, point.y - y);
+    };
+
+    // Project onto each lookup-table chord, then refine around the best one
+    let best = 0;
+    let bestDistance = Infinity;
+    let low = 0;
+    let high = 1;
+    for (let i = 1; i < points.length; i++) {
+      if (segmentIndices[i] !== segmentIndices[i - 1]) continue;
+      const from = points[i - 1];
+      const dx = points[i].x - from.x;
+      const dy = points[i].y - from.y;
+      const chord = dx * dx + dy * dy;
+      const f =
+        chord > 0
+          ? Math.max(
+              0,
+              Math.min(1, ((x - from.x) * dx + (y - from.y) * dy) / chord),
+            )
+          : 0;
+      const d = Math.hypot(from.x + dx * f - x, from.y + dy * f - y);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = (lengths[i - 1] + (lengths[i] - lengths[i - 1]) * f) / total;
+        low = lengths[i - 1] / total;
+        high = lengths[i] / total;
+      }
+    }
+
+    if (high - low <= 0) return best;
+    for (let i = 0; i < 40; i++) {
+      const a = low + (high - low) / 3;
+      const b = high - (high - low) / 3;
+      if (distance(a) < distance(b)) high = b;
+      else low = a;
+    }
+    return (low + high) / 2;
+  };
+
+  const vertexProgress = (index: number) => {
+    if (vertices.length === 0 || total === 0) return 0;
+    const i = Math.max(0, Math.min(vertices.length - 1, Math.round(index)));
+    const drawn = vertices[i];
+    return drawn > 0 ? segmentEnds[drawn - 1] / total : 0;
+  };
+
+  return {
+    length: total,
+    pointAt,
+    tangentAt,
+    normalAt,
+    nearestProgress,
+    vertexProgress,
+  };
+}
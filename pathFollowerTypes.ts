@@ -1,5 +1,29 @@
 import { EasingName, EasingFunction } from "./easing";
-import { PathSegment, SegmentEventCallback } from "./PathSegment";
+import {
+  PathSegment,
+  SegmentBoundaryMode,
+  SegmentEventCallback,
+  SegmentState,
+  SnapPointSource,
+} from "./PathSegment";
+import { ScrollBoundary, ScrollRange } from "./scrollRange";
+import { SegmentDefinition } from "./segmentBounds";
+import { ScrollAnimationOptions } from "./scrollAnimator";
+import { ScrollAxis } from "./useScrollContainer";
+import { SmoothingConfig } from "./smoothing";
+import { ReducedMotionPolicy } from "./useReducedMotion";
+
+/** Track id used when no explicit track is given */
+export const DEFAULT_TRACK_ID = "default";
+
+export interface PathTrackState {
+  /** Current position in SVG viewBox coordinates */
+  position: { x: number; y: number };
+  /** Current position in screen pixels (via CTM) */
+  screenPosition: { x: number; y: number };
+  /** Tangent angle in degrees */
+  angle: number;
+}
 
 export interface PathFollowerState {
   /** Raw scroll progress (0-1) */
@@ -8,18 +32,62 @@ export interface PathFollowerState {
   pathProgress: number;
   /** Eased progress value (0-1) */
   easedProgress: number;
-  /** Current position in SVG viewBox coordinates */
+  /** Current position in SVG viewBox coordinates (default track) */
   position: { x: number; y: number };
-  /** Current position in screen pixels (via CTM) */
+  /** Current position in screen pixels (default track) */
   screenPosition: { x: number; y: number };
-  /** Tangent angle in degrees */
+  /** Tangent angle in degrees (default track) */
   angle: number;
   /** Current viewport dimensions */
   viewport: { width: number; height: number };
   /** Scroll direction: 1 = down, -1 = up */
   direction: 1 | -1;
-  /** Current scroll velocity */
+  /** Progress speed in progress units per second, never negative */
   velocity: number;
+  /** Progress velocity in progress units per second, negative when moving back */
+  signedVelocity: number;
+  /** Per-track position, angle and screen position keyed by track id */
+  tracks: Record<string, PathTrackState>;
+}
+
+export interface SnapConfig {
+  /** "proximity" snaps only near a point, "mandatory" always snaps. Default: "proximity" */
+  mode?: "proximity" | "mandatory";
+  /** Segment starts, ends, centers or explicit progress values. Default: "starts" */
+  points?: SnapPointSource;
+  /** Max path progress distance for proximity snapping. Default: 0.05 */
+  threshold?: number;
+  /** Idle time in ms after the last scroll before snapping. Default: 150 */
+  delay?: number;
+  /** Snap animation duration in ms. Default: 500 */
+  duration?: number;
+  /** Snap animation easing. Default: "easeInOutCubic" */
+  easing?: EasingName | EasingFunction;
+}
+
+export interface ScrollToSegmentOptions extends ScrollAnimationOptions {
+  /** Which part of the segment to scroll to. Default: "start" */
+  align?: "start" | "center" | "end";
+}
+
+export interface ScrollToPointOptions extends ScrollAnimationOptions {
+  /** Track whose path the point is matched against. Default: the default track */
+  track?: string;
+}
+
+/**
+ * Follower behavior when motion is reduced: "waypoints" jumps between segment
+ * starts, "instant" tracks scroll directly. Both skip smoothing.
+ */
+export type ReducedMotionFallback = "waypoints" | "instant";
+
+export interface PathFollowerLoopStats {
+  /** Frames the RAF loop computed and notified */
+  framesRun: number;
+  /** Frames skipped while the loop slept with nothing moving */
+  framesSkipped: number;
+  /** Whether the loop is currently asleep */
+  sleeping: boolean;
 }
 
 export type PathFollowerSubscriber = (state: PathFollowerState) => void;
@@ -31,30 +99,99 @@ export interface PathFollowerContextValue {
     pathElement: SVGPathElement,
     svgElement: SVGSVGElement,
     viewBoxHeight: number,
+    trackId?: string,
   ) => void;
-  unregisterPath: () => void;
-  addSegment: (segment: PathSegment) => void;
+  unregisterPath: (trackId?: string) => void;
+  /** Register a scroll range, used when the provider has no start/end props */
+  registerScrollRange: (range: ScrollRange) => void;
+  unregisterScrollRange: () => void;
+  /** Add or replace a segment; length, anchor and element bounds resolve once paths and layout exist */
+  addSegment: (segment: SegmentDefinition) => void;
   removeSegment: (id: string) => void;
   subscribeToSegment: (
     segmentId: string,
     callback: SegmentEventCallback,
   ) => () => void;
+  /** Events for every segment, including ones added after subscribing */
+  subscribeToAllSegments: (callback: SegmentEventCallback) => () => void;
   isSegmentActive: (segmentId: string) => boolean;
   getActiveSegments: () => PathSegment[];
+  /** Active state, progress and direction of a segment as of the last frame */
+  getSegmentState: (segmentId: string) => SegmentState;
+  /**
+   * Animate the scroll container to a path progress (0-1).
+   * Resolves true on arrival, false if the user interrupts.
+   */
+  scrollToProgress: (
+    progress: number,
+    options?: ScrollAnimationOptions,
+  ) => Promise<boolean>;
+  /** Animate the scroll container to a segment's start, center or end */
+  scrollToSegment: (
+    segmentId: string,
+    options?: ScrollToSegmentOptions,
+  ) => Promise<boolean>;
+  /** Animate the scroll container to the path point nearest (x, y) in viewBox units */
+  scrollToPoint: (
+    x: number,
+    y: number,
+    options?: ScrollToPointOptions,
+  ) => Promise<boolean>;
+  /**
+   * Seed a track's state before the first measurement, so followers show a
+   * static frame before the first paint. Ignored once the loop runs.
+   * Priming a track again replaces its measurement; returns a cleanup.
+   */
+  primeTrack: (
+    trackId: string,
+    measure: (easedProgress: number) => PathTrackState,
+  ) => () => void;
+  /**
+   * Position, screen position and angle on a track at any path progress (0-1).
+   * Null until the track has registered or been primed.
+   */
+  sampleAt: (progress: number, trackId?: string) => PathTrackState | null;
+  /** Length of a track's path in viewBox units, 0 until it registers */
+  getPathLength: (trackId?: string) => number;
+  /** Path progress (0-1) through the provider's easing, where it sits on the path */
+  getEasedProgress: (pathProgress: number) => number;
+  /** Debug counters for the idle-aware RAF loop */
+  getLoopStats: () => PathFollowerLoopStats;
 }
 
 export interface PathFollowerProviderProps {
   children: React.ReactNode;
   /** Easing function for path progress */
   easing?: EasingName | EasingFunction;
-  /** Smoothing factor (0-1, lower = more smoothing) */
-  smoothing?: number;
+  /**
+   * Smoothing factor (0-1, lower = more smoothing) applied once per frame,
+   * or a time-based `{ type: "spring" }` / `{ type: "exponential" }` config
+   */
+  smoothing?: SmoothingConfig;
   /** Enable smooth interpolation */
   smooth?: boolean;
-  /** Initial path segments */
-  segments?: PathSegment[];
+  /** Initial path segments, bounded by progress, path length, anchors or elements */
+  segments?: SegmentDefinition[];
+  /** How progress on a segment boundary counts. Default: "half-open" */
+  segmentBoundaries?: SegmentBoundaryMode;
   /** Custom scroll container (defaults to window) */
   scrollContainer?: Window | HTMLElement | React.RefObject<HTMLElement | null>;
+  /** Scroll axis that drives progress (defaults to "y") */
+  axis?: ScrollAxis;
+  /** Scroll position where progress starts (defaults to the top) */
+  start?: ScrollBoundary;
+  /** Scroll position where progress ends (defaults to the maximum scroll) */
+  end?: ScrollBoundary;
+  /** Glide to the nearest waypoint once scrolling stops */
+  snap?: SnapConfig;
+  /** Progress rendered before the first scroll measurement, e.g. on the server. Default: 0 */
+  initialProgress?: number;
+  /** Viewport size assumed before the first measurement. Default: 0 × 0 */
+  initialViewport?: { width: number; height: number };
+  /** How to honor prefers-reduced-motion. Default: the enclosing provider's, else "respect" */
+  reducedMotion?: ReducedMotionPolicy;
+  /** What the follower does when motion is reduced. Default: "waypoints" */
+  reducedMotionFallback?: ReducedMotionFallback;
 }
 
 export const DEFAULT_PATH_FOLLOWER_STATE: PathFollowerState = {
@@ -64,10 +201,10 @@ export const DEFAULT_PATH_FOLLOWER_STATE: PathFollowerState = {
   position: { x: 0, y: 0 },
   screenPosition: { x: 0, y: 0 },
   angle: 0,
-  viewport: {
-    width: typeof window !== "undefined" ? window.innerWidth : 0,
-    height: typeof window !== "undefined" ? window.innerHeight : 0,
-  },
+  // Deterministic so server and client renders match
+  viewport: { width: 0, height: 0 },
   direction: 1,
   velocity: 0,
+  signedVelocity: 0,
+  tracks: {},
 };
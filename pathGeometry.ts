@@ -0,0 +1,133 @@
+/**
+ * Geometric features of a path as arc-length progress (0-1), used to split
+ * paths into segments that follow their shape
+ */
+
+import { getPathSampler } from "./pathCache";
+import { parsePathData } from "./pathEngine";
+
+/** Default number of samples taken along the path */
+const DEFAULT_SAMPLES = 256;
+
+export interface SharpTurnOptions {
+  /** Curvature (1 / turn radius, in viewBox units) above which a turn counts. Default: 0.05 */
+  curvature?: number;
+  /** Samples taken along the path. Default: 256 */
+  samples?: number;
+}
+
+export interface ExtremaOptions {
+  /** Axis whose local minima and maxima split the path. Default: "y" */
+  axis?: "x" | "y" | "both";
+  /** Samples taken along the path. Default: 256 */
+  samples?: number;
+}
+
+function getPathData(path: string | SVGPathElement): string {
+  return typeof path === "string" ? path : (path.getAttribute("d") ?? "");
+}
+
+/**
+ * Sort breaks, dropping duplicates and the path ends
+ */
+function normalizeBreaks(breaks: number[]): number[] {
+  const sorted = breaks
+    .filter((b) => b > 1e-6 && b < 1 - 1e-6)
+    .sort((a, b) => a - b);
+  return sorted.filter((b, i) => i === 0 || b - sorted[i - 1] > 1e-6);
+}
+
+/**
+ * Progress where each subpath after the first begins
+ */
+export function getSubpathBreaks(path: string | SVGPathElement): number[] {
+  const sampler = getPathSampler(path);
+  const commands = parsePathData(getPathData(path));
+  const breaks: number[] = [];
+  commands.forEach((command, i) => {
+    // A moveto draws nothing, so it sits where the previous subpath ended
+    if (i > 0 && command.type === "M") breaks.push(sampler.vertexProgress(i));
+  });
+  return normalizeBreaks(breaks);
+}
+
+/**
+ * Progress at the end point of every drawing command
+ */
+export function getCommandBreaks(path: string | SVGPathElement): number[] {
+  const sampler = getPathSampler(path);
+  const commands = parsePathData(getPathData(path));
+  return normalizeBreaks(commands.map((_, i) => sampler.vertexProgress(i)));
+}
+
+/**
+ * Progress at the centre of every turn whose curvature exceeds the
+ * threshold. Corners between commands show up as turns within one sample.
+ */
+export function getSharpTurns(
+  path: string | SVGPathElement,
+  { curvature = 0.05, samples = DEFAULT_SAMPLES }: SharpTurnOptions = {},
+): number[] {
+  const sampler = getPathSampler(path);
+  const steps = Math.max(2, Math.floor(samples));
+  const step = sampler.length / steps;
+  if (step <= 0) return [];
+
+  const angleAt = (t: number) => {
+    const tangent = sampler.tangentAt(t);
+    return Math.atan2(tangent.y, tangent.x);
+  };
+
+  const breaks: number[] = [];
+  // Curvature-weighted sums over the current run above the threshold
+  let weight = 0;
+  let weighted = 0;
+  let previous = angleAt(0);
+  for (let i = 1; i <= steps; i++) {
+    const angle = angleAt(i / steps);
+    let turn = Math.abs(angle - previous);
+    if (turn > Math.PI) turn = 2 * Math.PI - turn;
+    previous = angle;
+
+    const value = turn / step;
+    if (value > curvature) {
+      weight += value;
+      weighted += value * ((i - 0.5) / steps);
+    } else if (weight > 0) {
+      breaks.push(weighted / weight);
+      weight = 0;
+      weighted = 0;
+    }
+  }
+  if (weight > 0) breaks.push(weighted / weight);
+  return normalizeBreaks(breaks);
+}
+
+/**
+ * Progress at local minima and maxima of x and/or y along the path
+ */
+export function getExtrema(
+  path: string | SVGPathElement,
+  { axis = "y", samples = DEFAULT_SAMPLES }: ExtremaOptions = {},
+): number[] {
+  const sampler = getPathSampler(path);
+  const steps = Math.max(2, Math.floor(samples));
+  const points = Array.from({ length: steps + 1 }, (_, i) =>
+    sampler.pointAt(i / steps),
+  );
+
+  const axes: ("x" | "y")[] = axis === "both" ? ["x", "y"] : [axis];
+  const breaks: number[] = [];
+  for (const a of axes) {
+    let direction = 0;
+    for (let i = 1; i <= steps; i++) {
+      const delta = points[i][a] - points[i - 1][a];
+      if (Math.abs(delta) < 1e-9) continue;
+      const sign = Math.sign(delta);
+      // The path turned back along this axis at the previous sample
+      if (direction !== 0 && sign !== direction) breaks.push((i - 1) / steps);
+      direction = sign;
+    }
+  }
+  return normalizeBreaks(breaks);
+}
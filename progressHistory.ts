@@ -0,0 +1,80 @@
+/**
+ * Timestamped progress history for time-delayed followers
+ */
+
+interface ProgressSample {
+  time: number;
+  value: number;
+}
+
+/** Gap in ms after which progress is assumed to have held still */
+const MAX_SAMPLE_GAP = 100;
+
+/** Nominal frame duration used when filling a gap */
+const FRAME_MS = 1000 / 60;
+
+/**
+ * Records progress over time and reads it back at an earlier time,
+ * interpolating between samples
+ */
+export class ProgressHistory {
+  private samples: ProgressSample[] = [];
+
+  /**
+   * Record progress at a time in ms
+   */
+  push(time: number, value: number): void {
+    const last = this.samples[this.samples.length - 1];
+    if (last && time <= last.time) {
+      last.value = value;
+      return;
+    }
+    // The provider only reports while progress moves, so a long gap means
+    // progress held still until just before this sample
+    if (last && time - last.time > MAX_SAMPLE_GAP) {
+      this.samples.push({ time: time - FRAME_MS, value: last.value });
+    }
+    this.samples.push({ time, value });
+  }
+
+  /**
+   * Progress at a time in ms, clamped to the recorded range
+   */
+  sample(time: number): number {
+    const { samples } = this;
+    if (samples.length === 0) return 0;
+    if (time <= samples[0].time) return samples[0].value;
+
+    for (let i = 1; i < samples.length; i++) {
+      const next = samples[i];
+      if (time <= next.time) {
+        const prev = samples[i - 1];
+        const t = (time - prev.time) / (next.time - prev.time);
+        return prev.value + (next.value - prev.value) * t;
+      }
+    }
+    return samples[samples.length - 1].value;
+  }
+
+  /**
+   * Drop samples that can no longer be read at or after `time`
+   */
+  prune(time: number): void {
+    let drop = 0;
+    while (
+      drop < this.samples.length - 1 &&
+      this.samples[drop + 1].time <= time
+    ) {
+      drop++;
+    }
+    if (drop > 0) this.samples.splice(0, drop);
+  }
+
+  /**
+   * Whether reading at `time` has caught up with the latest sample
+   */
+  isSettled(time: number): boolean {
+    const last = this.samples[this.samples.length - 1];
+    return !last || time >= last.time;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Stroke math for drawing a path progressively as the follower advances
+ */
+
+export interface RevealAheadStyle {
+  /** Stroke for the undrawn part. Default: the path stroke */
+  stroke?: string;
+  /** Opacity for the undrawn part. Default: 0.2 */
+  opacity?: number;
+  /** Dash pattern for the undrawn part. Default: the path dash pattern */
+  strokeDasharray?: string;
+}
+
+export interface RevealConfig {
+  /** Length of the fading tail behind the follower, in path progress (0-1). Default: 0 */
+  trail?: number;
+  /** Opacity the drawn path fades to beyond the trail. Default: 0 */
+  fadeTo?: number;
+  /** Show the undrawn part ahead of the follower with this style. Default: hidden */
+  ahead?: boolean | RevealAheadStyle;
+}
+
+export interface RevealStroke {
+  strokeDasharray: string;
+  strokeDashoffset: number;
+  opacity: number;
+}
+
+/** Opacity steps used to approximate the trailing fade */
+const TRAIL_STEPS = 8;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Normalize the `reveal` prop, which accepts true or a config
+ */
+export function resolveRevealConfig(
+  reveal: boolean | RevealConfig | undefined,
+): RevealConfig | null {
+  if (!reveal) return null;
+  return reveal === true ? {} : reveal;
+}
+
+/**
+ * Dash settings that draw only the part of a path between two lengths
+ */
+export function getStrokeRange(
+  length: number,
+  from: number,
+  to: number,
+): Pick<RevealStroke, "strokeDasharray" | "strokeDashoffset"> {
+  const start = Math.max(0, Math.min(length, from));
+  const end = Math.max(start, Math.min(length, to));
+  // The gap is longer than the path so the dash never repeats
+  return {
+    strokeDasharray: `${end - start} ${length + 1}`,
+    strokeDashoffset: start > 0 ? -start : 0,
+  };
+}
+
+/**
+ * Mask strokes for the drawn part of a path at `progress`. Without a trail
+ * this is a single stroke; with one, the tail is split into fading steps.
+ * The number of strokes only depends on the config.
+ */
+export function getRevealStrokes(
+  length: number,
+  progress: number,
+  config: RevealConfig,
+): RevealStroke[] {
+  const drawn = clamp01(progress) * length;
+  const trail = clamp01(config.trail ?? 0) * length;
+
+  if (trail <= 0) {
+    return [{ ...getStrokeRange(length, 0, drawn), opacity: 1 }];
+  }
+
+  const fadeTo = clamp01(config.fadeTo ?? 0);
+  const strokes: RevealStroke[] = [
+    { ...getStrokeRange(length, 0, drawn - trail), opacity: fadeTo },
+  ];
+  for (let i = 0; i < TRAIL_STEPS; i++) {
+    strokes.push({
+      ...getStrokeRange(
+        length,
+        drawn - (trail * (i + 1)) / TRAIL_STEPS,
+        drawn - (trail * i) / TRAIL_STEPS,
+      ),
+      opacity: fadeTo + (1 - fadeTo) * (1 - i / TRAIL_STEPS),
+    });
+  }
+  return strokes;
+}
+
+/**
+ * Mask stroke for the undrawn part of a path at `progress`
+ */
+export function getAheadStroke(length: number, progress: number): RevealStroke {
+  const drawn = clamp01(progress) * length;
+  return { ...getStrokeRange(length, drawn, length), opacity: 1 };
+}
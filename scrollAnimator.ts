@@ -0,0 +1,95 @@
+import { EasingName, EasingFunction, applyEasing } from "./easing";
+import { getScrollState } from "./useScrollContainer";
+
+export interface ScrollAnimationOptions {
+  /** Animation duration in ms. Default: 600 */
+  duration?: number;
+  /** Animation easing. Default: "easeInOutCubic" */
+  easing?: EasingName | EasingFunction;
+}
+
+export interface ScrollAnimation {
+  /** Resolves true on arrival, false if cancelled */
+  promise: Promise<boolean>;
+  cancel: () => void;
+}
+
+/** User input that interrupts a programmatic scroll */
+const CANCEL_EVENTS = ["wheel", "touchstart", "pointerdown", "keydown"];
+
+function setScroll(
+  target: Window | HTMLElement,
+  top: number | undefined,
+  left: number | undefined,
+): void {
+  if (target === window) {
+    window.scrollTo(left ?? window.scrollX, top ?? window.scrollY);
+    return;
+  }
+  const el = target as HTMLElement;
+  if (top !== undefined) el.scrollTop = top;
+  if (left !== undefined) el.scrollLeft = left;
+}
+
+/**
+ * Animate a scroll target to a position. Cancels on wheel, touch, pointer
+ * or keyboard input so the user always wins.
+ */
+export function animateScroll(
+  target: Window | HTMLElement,
+  to: { top?: number; left?: number },
+  { duration = 600, easing = "easeInOutCubic" }: ScrollAnimationOptions = {},
+): ScrollAnimation {
+  const { scrollTop, scrollLeft } = getScrollState(target);
+  const from = { top: scrollTop, left: scrollLeft };
+
+  let rafId: number | null = null;
+  let done = false;
+  let settle: (arrived: boolean) => void = () => {};
+  const promise = new Promise<boolean>((resolve) => {
+    settle = resolve;
+  });
+
+  const finish = (arrived: boolean) => {
+    if (done) return;
+    done = true;
+    if (rafId !== null) cancelAnimationFrame(rafId);
+    rafId = null;
+    CANCEL_EVENTS.forEach((type) => target.removeEventListener(type, cancel));
+    settle(arrived);
+  };
+
+  const cancel = () => finish(false);
+
+  if (duration <= 0) {
+    setScroll(target, to.top, to.left);
+    settle(true);
+    return { promise, cancel: () => {} };
+  }
+
+  CANCEL_EVENTS.forEach((type) =>
+    target.addEventListener(type, cancel, { passive: true }),
+  );
+
+  const startTime = performance.now();
+  const step = () => {
+    if (done) return;
+    const t = Math.min(1, (performance.now() - startTime) / duration);
+    const eased = applyEasing(t, easing);
+    setScroll(
+      target,
+      to.top !== undefined ? from.top + (to.top - from.top) * eased : undefined,
+      to.left !== undefined
+        ? from.left + (to.left - from.left) * eased
+        : undefined,
+    );
+    if (t >= 1) {
+      finish(true);
+    } else {
+      rafId = requestAnimationFrame(step);
+    }
+  };
+  rafId = requestAnimationFrame(step);
+
+  return { promise, cancel };
+}
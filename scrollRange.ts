@@ -0,0 +1,196 @@
+import { clamp } from "./utils";
+import { ScrollAxis, getScrollState } from "./useScrollContainer";
+
+/**
+ * Where an element edge meets a viewport edge, e.g. "top bottom" means
+ * "when the element's top reaches the viewport's bottom".
+ * Each side accepts "top", "center", "bottom" or a percentage ("25%").
+ */
+export type ScrollEdge = string;
+
+export type ScrollBoundary =
+  | number // Absolute scroll position in pixels
+  | `${number}%` // Percentage of the maximum scroll distance
+  | {
+      /** Element whose position defines the boundary */
+      target: Element | React.RefObject<Element | null>;
+      /** Element edge and viewport edge, defaults to "top top" */
+      edge?: ScrollEdge;
+      /** Extra offset in pixels */
+      offset?: number;
+    };
+
+export interface ScrollRange {
+  /** Scroll position where progress is 0 (defaults to the top) */
+  start?: ScrollBoundary;
+  /** Scroll position where progress is 1 (defaults to the maximum scroll) */
+  end?: ScrollBoundary;
+}
+
+const EDGE_KEYWORDS: Record<string, number> = {
+  top: 0,
+  left: 0,
+  center: 0.5,
+  bottom: 1,
+  right: 1,
+};
+
+function parseEdgePart(part: string | undefined): number {
+  if (!part) return 0;
+  if (part in EDGE_KEYWORDS) return EDGE_KEYWORDS[part];
+  if (part.endsWith("%")) return parseFloat(part) / 100 || 0;
+  return 0;
+}
+
+/**
+ * Parse an edge keyword into element and viewport fractions.
+ * "left"/"right" are aliases of "top"/"bottom" for horizontal ranges.
+ */
+export function parseScrollEdge(edge: ScrollEdge = "top top"): {
+  element: number;
+  viewport: number;
+} {
+  const [element, viewport] = edge.trim().split(/\s+/);
+  return {
+    element: parseEdgePart(element),
+    viewport: parseEdgePart(viewport ?? element),
+  };
+}
+
+/**
+ * Scroll position, maximum scroll and viewport size along one axis
+ */
+function getAxisMetrics(target: Window | HTMLElement, axis: "x" | "y") {
+  const state = getScrollState(target);
+  return axis === "x"
+    ? {
+        scroll: state.scrollLeft,
+        maxScroll: Math.max(0, state.scrollWidth - state.clientWidth),
+        client: state.clientWidth,
+      }
+    : {
+        scroll: state.scrollTop,
+        maxScroll: Math.max(0, state.scrollHeight - state.clientHeight),
+        client: state.clientHeight,
+      };
+}
+
+/**
+ * Resolve a boundary to an absolute scroll position in pixels
+ */
+export function resolveScrollBoundary(
+  boundary: ScrollBoundary,
+  target: Window | HTMLElement,
+  axis: "x" | "y" = "y",
+): number {
+  const { scroll, maxScroll, client } = getAxisMetrics(target, axis);
+
+  if (typeof boundary === "number") return boundary;
+  if (typeof boundary === "string") {
+    return (parseFloat(boundary) / 100) * maxScroll;
+  }
+
+  const element =
+    "current" in boundary.target ? boundary.target.current : boundary.target;
+  if (!element) return 0;
+
+  // Element position within the scrollable content
+  const rect = element.getBoundingClientRect();
+  const containerRect =
+    target === window ? null : (target as HTMLElement).getBoundingClientRect();
+  const elementStart =
+    axis === "x"
+      ? rect.left - (containerRect?.left ?? 0) + scroll
+      : rect.top - (containerRect?.top ?? 0) + scroll;
+  const elementSize = axis === "x" ? rect.width : rect.height;
+
+  const edge = parseScrollEdge(boundary.edge);
+  return (
+    elementStart +
+    edge.element * elementSize -
+    edge.viewport * client +
+    (boundary.offset ?? 0)
+  );
+}
+
+/**
+ * Resolve a range along one axis to pixel start/end plus the current scroll
+ */
+function resolveAxisRange(
+  target: Window | HTMLElement,
+  range: ScrollRange,
+  axis: "x" | "y",
+) {
+  const { scroll, maxScroll } = getAxisMetrics(target, axis);
+  const start =
+    range.start !== undefined
+      ? resolveScrollBoundary(range.start, target, axis)
+      : 0;
+  const end =
+    range.end !== undefined
+      ? resolveScrollBoundary(range.end, target, axis)
+      : maxScroll;
+  return { scroll, start, end };
+}
+
+/**
+ * Map the current scroll position of a target to 0-1 progress over a range.
+ * With axis "both", each axis contributes in proportion to its scroll distance.
+ */
+export function getScrollRangeProgress(
+  target: Window | HTMLElement,
+  range: ScrollRange = {},
+  axis: ScrollAxis = "y",
+): number {
+  const axes: ("x" | "y")[] = axis === "both" ? ["x", "y"] : [axis];
+
+  let travelled = 0;
+  let total = 0;
+  for (const a of axes) {
+    const { scroll, start, end } = resolveAxisRange(target, range, a);
+    const distance = end - start;
+    if (distance <= 0) continue;
+    travelled += clamp(scroll - start, 0, distance);
+    total += distance;
+  }
+
+  return total > 0 ? travelled / total : 0;
+}
+
+/**
+ * Progress (0-1) that a scroll position along one axis has over a range
+ */
+export function getProgressAtScrollPosition(
+  target: Window | HTMLElement,
+  position: number,
+  range: ScrollRange = {},
+  axis: "x" | "y" = "y",
+): number {
+  const { start, end } = resolveAxisRange(target, range, axis);
+  const distance = end - start;
+  return distance > 0 ? clamp((position - start) / distance, 0, 1) : 0;
+}
+
+/**
+ * Scroll position that produces the given progress over a range.
+ * With axis "both", each axis is placed at the same fraction of its range.
+ */
+export function getScrollPositionForProgress(
+  target: Window | HTMLElement,
+  progress: number,
+  range: ScrollRange = {},
+  axis: ScrollAxis = "y",
+): { top?: number; left?: number } {
+  const p = clamp(progress, 0, 1);
+  const position: { top?: number; left?: number } = {};
+
+  if (axis !== "x") {
+    const { start, end } = resolveAxisRange(target, range, "y");
+    position.top = start + p * Math.max(0, end - start);
+  }
+  if (axis !== "y") {
+    const { start, end } = resolveAxisRange(target, range, "x");
+    position.left = start + p * Math.max(0, end - start);
+  }
+  return position;
+}
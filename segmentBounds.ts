@@ -0,0 +1,214 @@
+/**
+ * Segment bounds beyond plain progress: distances along the path, path
+ * anchors and scroll positions of DOM elements
+ */
+
+import { EasingName, EasingFunction, applyEasing } from "./easing";
+import { PathSegment, invertProgressRemap } from "./PathSegment";
+import { getPathSampler } from "./pathCache";
+import { PathSampler } from "./pathEngine";
+import {
+  ScrollEdge,
+  ScrollRange,
+  getProgressAtScrollPosition,
+  resolveScrollBoundary,
+} from "./scrollRange";
+import { ScrollAxis } from "./useScrollContainer";
+
+type ElementTarget = Element | React.RefObject<Element | null>;
+
+export type SegmentBound =
+  | number // Path progress (0-1)
+  | {
+      /** Distance along the path in viewBox units, negative counts from the end */
+      length: number;
+    }
+  | {
+      /** Index of a path command (its end point), or the id of an element in the path's SVG */
+      anchor: number | string;
+    }
+  | {
+      /** Element whose scroll position defines the bound */
+      target: ElementTarget;
+      /** Element edge and viewport edge, defaults to "top top" */
+      edge?: ScrollEdge;
+      /** Extra offset in pixels */
+      offset?: number;
+    };
+
+export interface SegmentDefinition extends Omit<PathSegment, "start" | "end"> {
+  /** Default: 0, or the target's top reaching the viewport center */
+  start?: SegmentBound;
+  /** Default: 1, or the target's bottom reaching the viewport center */
+  end?: SegmentBound;
+  /** Element whose passage through the viewport center defines the segment */
+  target?: ElementTarget;
+  /** Track whose path resolves length and anchor bounds. Default: the primary track */
+  track?: string;
+}
+
+export interface SegmentBoundContext {
+  /** Path element of a track, when registered */
+  getPath: (trackId?: string) => SVGPathElement | undefined;
+  /** Easing between path progress and position on the path */
+  easing: EasingName | EasingFunction;
+  /** Scroll container that element bounds are measured in */
+  scrollTarget: Window | HTMLElement | null;
+  range: ScrollRange;
+  axis: ScrollAxis;
+  /** Maps scroll progress to path progress */
+  remap: (progress: number) => number;
+}
+
+function unwrapTarget(target: ElementTarget): Element | null {
+  return "current" in target ? target.current : target;
+}
+
+/**
+ * Point an anchor element marks, from its bounding box where SVG layout
+ * exists and its position attributes otherwise
+ */
+function getAnchorPoint(element: Element): { x: number; y: number } | null {
+  const graphics = element as SVGGraphicsElement;
+  if (typeof graphics.getBBox === "function") {
+    try {
+      const box = graphics.getBBox();
+      return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    } catch {
+      // Not rendered yet; fall back to attributes
+    }
+  }
+  const read = (name: string) => element.getAttribute(name);
+  const x = read("cx") ?? read("x");
+  const y = read("cy") ?? read("y");
+  if (x === null || y === null) return null;
+  return { x: parseFloat(x) || 0, y: parseFloat(y) || 0 };
+}
+
+/**
+ * Position on the path (eased progress) of a named anchor. PathMarkers carry
+ * their position, other elements are projected onto the path.
+ */
+function getAnchorPosition(
+  path: SVGPathElement,
+  sampler: PathSampler,
+  id: string,
+): number | null {
+  const element = path.ownerSVGElement?.getElementById(id);
+  if (!element) return null;
+  const marker = element.getAttribute("data-path-marker");
+  if (marker !== null) return parseFloat(marker) || 0;
+  const point = getAnchorPoint(element);
+  return point ? sampler.nearestProgress(point.x, point.y) : null;
+}
+
+/**
+ * Elements a definition's bounds are measured from, once they exist
+ */
+export function getSegmentTargets(definition: SegmentDefinition): Element[] {
+  const targets = [definition.target];
+  for (const bound of [definition.start, definition.end]) {
+    if (typeof bound === "object" && "target" in bound) {
+      targets.push(bound.target);
+    }
+  }
+  return targets
+    .map((target) => (target ? unwrapTarget(target) : null))
+    .filter((target): target is Element => target !== null);
+}
+
+/**
+ * Resolve a bound to path progress (0-1), or null while what it refers to
+ * (the track's path, the anchor or the element) is missing
+ */
+export function resolveSegmentBound(
+  bound: SegmentBound,
+  context: SegmentBoundContext,
+  trackId?: string,
+): number | null {
+  if (typeof bound === "number") return bound;
+
+  if ("target" in bound) {
+    const { scrollTarget, range, axis, remap } = context;
+    if (!scrollTarget || !unwrapTarget(bound.target)) return null;
+    const scrollAxis = axis === "x" ? "x" : "y";
+    const position = resolveScrollBoundary(bound, scrollTarget, scrollAxis);
+    return remap(
+      getProgressAtScrollPosition(scrollTarget, position, range, scrollAxis),
+    );
+  }
+
+  const path = context.getPath(trackId);
+  if (!path) return null;
+  const sampler = getPathSampler(path);
+
+  let position: number | null;
+  if ("length" in bound) {
+    const length =
+      bound.length < 0 ? sampler.length + bound.length : bound.length;
+    position = sampler.length > 0 ? length / sampler.length : 0;
+  } else if (typeof bound.anchor === "number") {
+    position = sampler.vertexProgress(bound.anchor);
+  } else {
+    position = getAnchorPosition(path, sampler, bound.anchor);
+  }
+  if (position === null) return null;
+
+  // Positions on the path are eased progress, so undo the easing
+  const { easing } = context;
+  return invertProgressRemap(
+    (p) => applyEasing(p, easing),
+    Math.max(0, Math.min(1, position)),
+  );
+}
+
+/**
+ * A definition's progress segment if both bounds are plain numbers, which
+ * needs no path or layout to resolve
+ */
+export function resolveStaticSegment(
+  definition: SegmentDefinition,
+): PathSegment | null {
+  const { start = 0, end = 1, target, track, ...segment } = definition;
+  if (target || typeof start !== "number" || typeof end !== "number") {
+    return null;
+  }
+  return { ...segment, start, end };
+}
+
+/**
+ * Resolve a definition to a progress segment, or null while any bound
+ * can't be resolved yet
+ */
+export function resolveSegment(
+  definition: SegmentDefinition,
+  context: SegmentBoundContext,
+): PathSegment | null {
+  const { start, end, target, track, ...segment } = definition;
+  const startBound = start ?? (target ? { target, edge: "top center" } : 0);
+  const endBound = end ?? (target ? { target, edge: "bottom center" } : 1);
+
+  const resolvedStart = resolveSegmentBound(startBound, context, track);
+  const resolvedEnd = resolveSegmentBound(endBound, context, track);
+  if (resolvedStart === null || resolvedEnd === null) return null;
+  return { ...segment, start: resolvedStart, end: resolvedEnd };
+}
+
+/**
+ * Whether two bounds are the same, comparing object bounds by content
+ */
+export function isSameSegmentBound(
+  a: SegmentBound | undefined,
+  b: SegmentBound | undefined,
+): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object") return false;
+  if ("length" in a) return "length" in b && a.length === b.length;
+  if ("anchor" in a) return "anchor" in b && a.anchor === b.anchor;
+  return (
+    "target" in b &&
+    a.target === b.target &&
+    a.edge === b.edge &&
+    a.offset === b.offset
+  );
+}
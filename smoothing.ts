@@ -0,0 +1,83 @@
+/**
+ * Progress smoothing integrators for the path follower
+ */
+
+export interface SpringSmoothing {
+  type: "spring";
+  /** Spring stiffness. Default: 170 */
+  stiffness?: number;
+  /** Damping coefficient. Default: 26 */
+  damping?: number;
+  /** Mass of the follower. Default: 1 */
+  mass?: number;
+}
+
+export interface ExponentialSmoothing {
+  type: "exponential";
+  /** Time in ms to close half the remaining distance. Default: 100 */
+  halfLife?: number;
+}
+
+/**
+ * A number is the legacy per-frame lerp factor (0-1, lower = more smoothing).
+ * Spring and exponential modes are driven by real elapsed time.
+ */
+export type SmoothingConfig = number | SpringSmoothing | ExponentialSmoothing;
+
+export interface SmoothingState {
+  /** Smoothed value */
+  value: number;
+  /** Rate of change in units per second */
+  velocity: number;
+}
+
+/** Longest time step integrated at once, so a stalled tab doesn't explode */
+const MAX_STEP = 0.1;
+
+/** Spring sub-step size in seconds for stable integration */
+const SPRING_SUBSTEP = 1 / 240;
+
+/**
+ * Advance a smoothing integrator toward a target by `dt` seconds
+ */
+export function stepSmoothing(
+  state: SmoothingState,
+  target: number,
+  dt: number,
+  config: SmoothingConfig,
+): SmoothingState {
+  const step = Math.max(0, Math.min(MAX_STEP, dt));
+
+  if (typeof config === "number") {
+    const value = state.value + (target - state.value) * config;
+    return {
+      value,
+      velocity: step > 0 ? (value - state.value) / step : 0,
+    };
+  }
+
+  if (config.type === "exponential") {
+    const halfLife = Math.max(1, config.halfLife ?? 100) / 1000;
+    const alpha = 1 - Math.pow(2, -step / halfLife);
+    const value = state.value + (target - state.value) * alpha;
+    return {
+      value,
+      velocity: step > 0 ? (value - state.value) / step : 0,
+    };
+  }
+
+  const { stiffness = 170, damping = 26, mass = 1 } = config;
+  let { value, velocity } = state;
+  let remaining = step;
+
+  // Semi-implicit Euler in fixed sub-steps
+  while (remaining > 0) {
+    const h = Math.min(SPRING_SUBSTEP, remaining);
+    const force = -stiffness * (value - target) - damping * velocity;
+    velocity += (force / Math.max(0.0001, mass)) * h;
+    value += velocity * h;
+    remaining -= h;
+  }
+
+  return { value, velocity };
+}
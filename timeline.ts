@@ -0,0 +1,230 @@
+/**
+ * Keyframe timelines that map path progress to style values
+ */
+
+import { EasingName, EasingFunction, applyEasing } from "./easing";
+
+export type TimelineValue = number | string;
+
+export type TimelineKeyframe = {
+  [property: string]: TimelineValue | EasingFunction | undefined;
+  /** Easing from the previous keyframe into this one (default: linear) */
+  easing?: EasingName | EasingFunction;
+};
+
+/** Keyframes keyed by progress (0-1) */
+export type TimelineKeyframes = Record<number, TimelineKeyframe>;
+
+export type TimelineValues = Record<string, TimelineValue>;
+
+interface PropertyStop {
+  offset: number;
+  value: TimelineValue;
+  easing: EasingName | EasingFunction;
+}
+
+type Color = [number, number, number, number];
+
+const NUMBER_PATTERN = /-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/gi;
+
+/**
+ * Parse a hex or rgb()/rgba() color into [r, g, b, a]
+ */
+export function parseColor(value: string): Color | null {
+  const hex = value.trim().match(/^#([0-9a-f]{3,8})$/i);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits
+        .split("")
+        .map((d) => d + d)
+        .join("");
+    }
+    if (digits.length !== 6 && digits.length !== 8) return null;
+    const channel = (i: number) => parseInt(digits.slice(i, i + 2), 16);
+    return [
+      channel(0),
+      channel(2),
+      channel(4),
+      digits.length === 8 ? channel(6) / 255 : 1,
+    ];
+  }
+
+  const rgb = value.trim().match(/^rgba?\(([^)]+)\)$/i);
+  if (rgb) {
+    const parts = rgb[1]
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .map(parseFloat);
+    if (parts.length < 3 || parts.some(isNaN)) return null;
+    return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+  }
+
+  return null;
+}
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+/**
+ * Interpolate numbers, colors and strings with matching number structure
+ * (units, transforms, shadows). Anything else switches halfway through.
+ */
+export function interpolateValue(
+  from: TimelineValue,
+  to: TimelineValue,
+  t: number,
+): TimelineValue {
+  if (typeof from === "number" && typeof to === "number") {
+    return lerp(from, to, t);
+  }
+
+  const fromString = String(from);
+  const toString = String(to);
+
+  const fromColor = parseColor(fromString);
+  const toColor = parseColor(toString);
+  if (fromColor && toColor) {
+    const [r, g, b] = [0, 1, 2].map((i) =>
+      Math.round(lerp(fromColor[i], toColor[i], t)),
+    );
+    const a = Math.round(lerp(fromColor[3], toColor[3], t) * 1000) / 1000;
+    return `rgba(${r}, ${g}, ${b}, ${a})`;
+  }
+
+  // Interpolate every number when the surrounding text matches
+  const fromNumbers = fromString.match(NUMBER_PATTERN) ?? [];
+  const toNumbers = toString.match(NUMBER_PATTERN) ?? [];
+  const fromText = fromString.split(NUMBER_PATTERN);
+  const toText = toString.split(NUMBER_PATTERN);
+  if (
+    fromNumbers.length > 0 &&
+    fromNumbers.length === toNumbers.length &&
+    fromText.join("|") === toText.join("|")
+  ) {
+    let i = 0;
+    return toString.replace(NUMBER_PATTERN, () => {
+      const value = lerp(
+        parseFloat(fromNumbers[i]),
+        parseFloat(toNumbers[i]),
+        t,
+      );
+      i++;
+      return String(Math.round(value * 1000) / 1000);
+    });
+  }
+
+  return t < 0.5 ? from : to;
+}
+
+/**
+ * Build a function that returns interpolated values for any progress
+ */
+export function createTimeline(
+  keyframes: TimelineKeyframes,
+): (progress: number) => TimelineValues {
+  const offsets = Object.keys(keyframes)
+    .map(Number)
+    .filter((offset) => !isNaN(offset))
+    .sort((a, b) => a - b);
+
+  // Per-property stops, so properties can skip keyframes
+  const tracks = new Map<string, PropertyStop[]>();
+  for (const offset of offsets) {
+    const { easing = "linear", ...values } = keyframes[offset];
+    for (const [property, value] of Object.entries(values)) {
+      if (typeof value !== "number" && typeof value !== "string") continue;
+      const stops = tracks.get(property) ?? [];
+      stops.push({ offset, value, easing });
+      tracks.set(property, stops);
+    }
+  }
+
+  return (progress: number) => {
+    const values: TimelineValues = {};
+    tracks.forEach((stops, property) => {
+      const first = stops[0];
+      const last = stops[stops.length - 1];
+      if (progress <= first.offset) {
+        values[property] = first.value;
+        return;
+      }
+      if (progress >= last.offset) {
+        values[property] = last.value;
+        return;
+      }
+
+      let index = 1;
+      while (stops[index].offset < progress) index++;
+      const from = stops[index - 1];
+      const to = stops[index];
+      const span = to.offset - from.offset;
+      const local = span > 0 ? (progress - from.offset) / span : 1;
+      values[property] = interpolateValue(
+        from.value,
+        to.value,
+        applyEasing(local, to.easing),
+      );
+    });
+    return values;
+  };
+}
+
+/** Shorthand keys composed into `transform` */
+const TRANSFORM_KEYS = ["x", "y", "rotate", "scale", "scaleX", "scaleY"];
+
+/** Numeric CSS properties that take no unit */
+const UNITLESS = new Set([
+  "opacity",
+  "zIndex",
+  "fontWeight",
+  "lineHeight",
+  "flexGrow",
+  "flexShrink",
+  "order",
+  "fillOpacity",
+  "strokeOpacity",
+]);
+
+const withUnit = (value: TimelineValue, unit: string) =>
+  typeof value === "number" ? `${value}${unit}` : value;
+
+/**
+ * Write timeline values to an element's inline style.
+ * `x`, `y`, `rotate` and `scale*` compose into `transform`, `blur` into
+ * `filter`; other keys are set as CSS properties or custom properties.
+ */
+export function applyTimelineStyles(
+  element: HTMLElement | SVGElement,
+  values: TimelineValues,
+): void {
+  const transforms: string[] = [];
+  if ("x" in values || "y" in values) {
+    transforms.push(
+      `translate3d(${withUnit(values.x ?? 0, "px")}, ${withUnit(values.y ?? 0, "px")}, 0)`,
+    );
+  }
+  if ("rotate" in values) {
+    transforms.push(`rotate(${withUnit(values.rotate, "deg")})`);
+  }
+  if ("scale" in values) transforms.push(`scale(${values.scale})`);
+  if ("scaleX" in values) transforms.push(`scaleX(${values.scaleX})`);
+  if ("scaleY" in values) transforms.push(`scaleY(${values.scaleY})`);
+  if (transforms.length > 0) element.style.transform = transforms.join(" ");
+
+  if ("blur" in values) {
+    element.style.filter = `blur(${withUnit(values.blur, "px")})`;
+  }
+
+  for (const [property, value] of Object.entries(values)) {
+    if (TRANSFORM_KEYS.includes(property) || property === "blur") continue;
+    if (property.startsWith("--")) {
+      element.style.setProperty(property, String(value));
+      continue;
+    }
+    const cssValue =
+      typeof value === "number" && !UNITLESS.has(property)
+        ? `${value}px`
+        : String(value);
+    (element.style as unknown as Record<string, string>)[property] = cssValue;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Geometry for motion trails drawn behind a path follower
+ */
+
+import { PathSampler } from "./pathEngine";
+import { interpolateValue } from "./timeline";
+
+/**
+ * - "ribbon": filled quads tapering along the path
+ * - "polyline": stroked line pieces of decreasing width
+ */
+export type TrailVariant = "ribbon" | "polyline";
+
+export interface TrailStyle {
+  /** Default: "ribbon" */
+  variant?: TrailVariant;
+  /** Width at the head in viewBox units. Default: 6 */
+  width?: number;
+  /** How much the width shrinks toward the tail (0-1), 1 tapers to a point. Default: 1 */
+  widthFalloff?: number;
+  /** Opacity at the head. Default: 1 */
+  opacity?: number;
+  /** How much the opacity drops toward the tail (0-1). Default: 1 */
+  opacityFalloff?: number;
+  /**
+   * A color, or colors spread from head to tail. Hex and rgb() colors
+   * interpolate. Default: "currentColor"
+   */
+  color?: string | string[];
+}
+
+export interface TrailPiece {
+  /** Path data for this piece */
+  d: string;
+  color: string;
+  opacity: number;
+  /** Stroke width for "polyline" pieces */
+  width: number;
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Color at `t` (0 = head, 1 = tail)
+ */
+export function getTrailColor(color: string | string[], t: number): string {
+  if (typeof color === "string") return color;
+  if (color.length <= 1) return color[0] ?? "currentColor";
+  const position = clamp01(t) * (color.length - 1);
+  const index = Math.min(color.length - 2, Math.floor(position));
+  return String(
+    interpolateValue(color[index], color[index + 1], position - index),
+  );
+}
+
+/**
+ * Trail pieces between a head and tail progress on a path. The number of
+ * pieces is always `segments`, so they can be rendered once and updated.
+ */
+export function getTrailPieces(
+  sampler: PathSampler,
+  head: number,
+  tail: number,
+  segments: number,
+  style: TrailStyle = {},
+): TrailPiece[] {
+  const {
+    variant = "ribbon",
+    width = 6,
+    widthFalloff = 1,
+    opacity = 1,
+    opacityFalloff = 1,
+    color = "currentColor",
+  } = style;
+  const count = Math.max(1, Math.floor(segments));
+
+  const samples = Array.from({ length: count + 1 }, (_, k) => {
+    const t = k / count;
+    const progress = clamp01(head + (tail - head) * t);
+    return {
+      point: sampler.pointAt(progress),
+      normal: sampler.normalAt(progress),
+      width: width * (1 - clamp01(widthFalloff) * t),
+      opacity: opacity * (1 - clamp01(opacityFalloff) * t),
+    };
+  });
+
+  return samples.slice(0, count).map((from, i) => {
+    const to = samples[i + 1];
+    const pieceColor = getTrailColor(color, (i + 0.5) / count);
+    const pieceOpacity = (from.opacity + to.opacity) / 2;
+
+    if (variant === "polyline") {
+      return {
+        d: `M ${round(from.point.x)} ${round(from.point.y)} L ${round(to.point.x)} ${round(to.point.y)}`,
+        color: pieceColor,
+        opacity: pieceOpacity,
+        width: (from.width + to.width) / 2,
+      };
+    }
+
+    const edge = (sample: typeof from, side: 1 | -1) => {
+      const offset = (sample.width / 2) * side;
+      return `${round(sample.point.x + sample.normal.x * offset)} ${round(sample.point.y + sample.normal.y * offset)}`;
+    };
+    return {
+      d: `M ${edge(from, 1)} L ${edge(to, 1)} L ${edge(to, -1)} L ${edge(from, -1)} Z`,
+      color: pieceColor,
+      opacity: pieceOpacity,
+      width: 0,
+    };
+  });
+}
@@ -1,4 +1,4 @@
-import { ScrollContainerRef } from "./useScrollContainer";
+import { ScrollAxis, ScrollContainerRef } from "./useScrollContainer";
 
 // Motion path can be an SVG path string, DOM element, or function
 export type MotionPathFunction = (t: number) => { x: number; y: number };
@@ -27,11 +27,24 @@ export interface ParallaxConfig {
   scrollOffset?: number;
 }
 
-export interface ParallaxContextValue {
+export interface ParallaxScrollState {
   scrollY: number;
   scrollX: number;
+}
+
+export type ParallaxScrollSubscriber = (scroll: ParallaxScrollState) => void;
+
+/**
+ * Raw provider value. Scroll position is read through `subscribeScroll`
+ * so scrolling doesn't re-render consumers.
+ */
+export interface ParallaxStoreValue {
   viewportHeight: number;
   viewportWidth: number;
+  /** Scroll axis that drives layer progress */
+  axis: ScrollAxis;
+  /** Whether motion is reduced under the provider's reducedMotion policy */
+  reducedMotion: boolean;
   scrollContainerRef: ScrollContainerRef | undefined;
   registerLayer: (
     id: string,
@@ -39,8 +52,15 @@ export interface ParallaxContextValue {
     config: ParallaxConfig,
   ) => void;
   unregisterLayer: (id: string) => void;
+  /** Subscribe to scroll updates; the callback also runs immediately */
+  subscribeScroll: (callback: ParallaxScrollSubscriber) => () => void;
+  getScroll: () => ParallaxScrollState;
 }
 
+export interface ParallaxContextValue
+  extends ParallaxStoreValue,
+    ParallaxScrollState {}
+
 export interface ParallaxLayerProps extends ParallaxConfig {
   children: React.ReactNode;
   className?: string;
@@ -0,0 +1,56 @@
+import { createContext, useContext, useEffect, useState } from "react";
+
+/**
+ * How providers treat `prefers-reduced-motion`:
+ * "respect" follows the user setting, "ignore" always animates,
+ * "always" reduces motion regardless of the setting.
+ */
+export type ReducedMotionPolicy = "respect" | "ignore" | "always";
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+/** Policy set by the nearest ParallaxProvider or PathFollowerProvider */
+export const ReducedMotionContext =
+  createContext<ReducedMotionPolicy>("respect");
+
+/**
+ * A provider's own policy, or the one it inherits from the nearest
+ * enclosing provider ("respect" at the root)
+ */
+export function useReducedMotionPolicy(
+  policy?: ReducedMotionPolicy,
+): ReducedMotionPolicy {
+  const inherited = useContext(ReducedMotionContext);
+  return policy ?? inherited;
+}
+
+function getMediaQuery(): MediaQueryList | null {
+  if (typeof window === "undefined" || !window.matchMedia) return null;
+  return window.matchMedia(REDUCED_MOTION_QUERY);
+}
+
+/**
+ * Hook that reports whether motion should be reduced.
+ * Uses the given policy, or the nearest provider's policy, and updates live
+ * when the media query changes.
+ */
+export function useReducedMotion(policy?: ReducedMotionPolicy): boolean {
+  const resolvedPolicy = useReducedMotionPolicy(policy);
+  // Starts false to match the server render; the effect reads the real setting
+  const [prefersReduced, setPrefersReduced] = useState(false);
+
+  useEffect(() => {
+    if (resolvedPolicy !== "respect") return;
+    const query = getMediaQuery();
+    if (!query) return;
+
+    const handleChange = () => setPrefersReduced(query.matches);
+    handleChange();
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, [resolvedPolicy]);
+
+  if (resolvedPolicy === "always") return true;
+  if (resolvedPolicy === "ignore") return false;
+  return prefersReduced;
+}
@@ -5,21 +5,26 @@ export type ScrollContainerRef =
   | HTMLElement
   | React.RefObject<HTMLElement | null>;
 
+/** Which scroll axis drives progress */
+export type ScrollAxis = "x" | "y" | "both";
+
 export interface ScrollState {
   scrollTop: number;
   scrollLeft: number;
   scrollHeight: number;
+  scrollWidth: number;
   clientHeight: number;
   clientWidth: number;
 }
 
 /**
  * Resolves a ScrollContainerRef to the actual scroll target element.
+ * Returns null during server rendering.
  */
 export function resolveScrollTarget(
   scrollContainer: ScrollContainerRef | undefined,
 ): Window | HTMLElement | null {
-  if (!scrollContainer) return window;
+  if (!scrollContainer) return typeof window !== "undefined" ? window : null;
   if ("current" in scrollContainer) return scrollContainer.current;
   return scrollContainer;
 }
@@ -35,6 +40,7 @@ export function getScrollState(
       scrollTop: 0,
       scrollLeft: 0,
       scrollHeight: 0,
+      scrollWidth: 0,
       clientHeight: 0,
       clientWidth: 0,
     };
@@ -45,6 +51,7 @@ export function getScrollState(
       scrollTop: window.scrollY,
       scrollLeft: window.scrollX,
       scrollHeight: document.documentElement.scrollHeight,
+      scrollWidth: document.documentElement.scrollWidth,
       clientHeight: window.innerHeight,
       clientWidth: window.innerWidth,
     };
@@ -55,6 +62,7 @@ export function getScrollState(
     scrollTop: el.scrollTop,
     scrollLeft: el.scrollLeft,
     scrollHeight: el.scrollHeight,
+    scrollWidth: el.scrollWidth,
     clientHeight: el.clientHeight,
     clientWidth: el.clientWidth,
   };
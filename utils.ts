@@ -3,30 +3,14 @@ import {
   MotionPathFunction,
   ParallaxDirection,
 } from "./types";
+import { getPathSampler } from "./pathCache";
 
 /**
  * Parse an SVG path string into a callable function
  */
 export function parseSVGPath(pathData: string): MotionPathFunction {
-  // Create a temporary SVG path element to use browser's path parsing
-  const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
-  const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
-  path.setAttribute("d", pathData);
-  svg.appendChild(path);
-  document.body.appendChild(svg);
-
-  const totalLength = path.getTotalLength();
-
-  const fn: MotionPathFunction = (t: number) => {
-    const clampedT = Math.max(0, Math.min(1, t));
-    const point = path.getPointAtLength(clampedT * totalLength);
-    return { x: point.x, y: point.y };
-  };
-
-  // Cleanup
-  document.body.removeChild(svg);
-
-  return fn;
+  const sampler = getPathSampler(pathData);
+  return (t: number) => sampler.pointAt(t);
 }
 
 /**
@@ -40,16 +24,8 @@ export function getPointOnPath(
     return source(t);
   }
 
-  if (typeof source === "string") {
-    const fn = parseSVGPath(source);
-    return fn(t);
-  }
-
-  // SVGPathElement
-  const totalLength = source.getTotalLength();
-  const clampedT = Math.max(0, Math.min(1, t));
-  const point = source.getPointAtLength(clampedT * totalLength);
-  return { x: point.x, y: point.y };
+  // Path string or SVGPathElement, measured once and cached
+  return getPathSampler(source).pointAt(t);
 }
 
 /**
@@ -60,6 +36,11 @@ export function getPathTangent(
   t: number,
   delta: number = 0.001,
 ): number {
+  if (typeof source !== "function") {
+    const tangent = getPathSampler(source).tangentAt(t);
+    return Math.atan2(tangent.y, tangent.x) * (180 / Math.PI);
+  }
+
   const p1 = getPointOnPath(source, Math.max(0, t - delta));
   const p2 = getPointOnPath(source, Math.min(1, t + delta));
   return Math.atan2(p2.y - p1.y, p2.x - p1.x) * (180 / Math.PI);